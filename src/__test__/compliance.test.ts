@@ -0,0 +1,51 @@
+import { ComplianceValidator } from '../compliance';
+import { Sequence } from '../sequence';
+
+describe('ComplianceValidator', () => {
+  const featuresOf = (input: string) => ComplianceValidator.analyze(input).features.map(f => f.feature);
+
+  it('should classify base level strings', () => {
+    const report = ComplianceValidator.analyze('[Acetyl]-EM[Oxidation]EVT[#g1(0.01)]S[Phospho#g1(0.99)]ES[+79.966]PEK');
+
+    expect(report.levels).toEqual(['base']);
+    expect(report.features.map(f => f.feature)).toEqual([
+      'terminal_modification', 'named_modification', 'named_modification',
+      'ambiguity_group', 'localization_score',
+      'named_modification', 'ambiguity_group', 'localization_score',
+      'mass_shift'
+    ]);
+    expect(report.features[0]).toMatchObject({ start: 0, end: 9 });
+  });
+
+  it('should detect level 2 features', () => {
+    expect(ComplianceValidator.analyze('EMU[U:Oxidation]X[+367.0537]O').levels).toEqual(['base', 'level2']);
+    expect(featuresOf('<13C>ELVIS[U:Phospho|Obs:+79.978]K')).toEqual([
+      'isotope_labeling', 'prefixed_name', 'observed_mass', 'joint_representation'
+    ]);
+    expect(featuresOf('(?DQ)NGTWEM[M:+15.995]ESNENFEGYM')).toContain('prefixed_mass_shift');
+  });
+
+  it('should detect extension features', () => {
+    expect(ComplianceValidator.analyze('EMEVTK[XLMOD:02001#XL1]SESPEK[#XL1]').levels).toEqual(['base', 'cross_linking']);
+    expect(ComplianceValidator.analyze('PEPTIDE[Formula:C12H20O2]K').levels).toEqual(['base', 'top_down']);
+    expect(ComplianceValidator.analyze('PEPTIDE[Formula:C12H20O2]N[Glycan:HexNAc2Hex3]K').levels).toEqual(['base', 'glycan']);
+    expect(ComplianceValidator.analyze('EMEVNES[R:O-phospho-L-serine]PEK/2+ELVIS/3').levels).toEqual(['base', 'top_down', 'spectral']);
+    expect(featuresOf('PEPTIDE/2[+2Na+,+H+]')).toEqual(['charge', 'ionic_species']);
+  });
+
+  it('should reject strings using unsupported levels', () => {
+    const validator = new ComplianceValidator(['level2']);
+
+    expect(validator.isSupported('[Acetyl]-PEPTIDE')).toBe(true);
+    expect(validator.isSupported('PEPTIDE/2')).toBe(false);
+    expect(validator.unsupportedFeatures('N[Glycan:Hex]K//PEPTIDE').map(f => f.feature)).toEqual([
+      'multi_chain', 'glycan_composition'
+    ]);
+    expect(new ComplianceValidator(['glycan']).isSupported('PEPTIDE[Formula:C12H20O2]K')).toBe(true);
+  });
+
+  it('should accept Sequence objects', () => {
+    const seq = Sequence.fromProforma('{Glycan:Hex}EMEVNES[Phospho]PEK');
+    expect(ComplianceValidator.analyze(seq).levels).toEqual(['base', 'glycan']);
+  });
+});
@@ -0,0 +1,96 @@
+import { AminoAcid } from '../amino_acid';
+import { Composition } from '../composition';
+import { Sequence } from '../sequence';
+
+describe('Composition', () => {
+  it('should combine element and isotope counts', () => {
+    const composition = new Composition({ C: 2, H: 4, D: 1 }).add(new Composition({ C: 1, O: 1 }), 2);
+
+    expect(composition.count('C')).toBe(4);
+    expect(composition.count('2H')).toBe(1);
+    expect(composition.count('D')).toBe(1);
+    expect(composition.subtract(new Composition({ O: 2 })).count('O')).toBe(0);
+    expect(composition.multiply(0).isEmpty()).toBe(true);
+    expect(composition.equals(new Composition({ O: 2, '2H': 1, H: 4, C: 4 }))).toBe(true);
+    expect(() => new Composition({ c: 1 })).toThrow("Invalid element or isotope 'c'");
+  });
+
+  it('should write formulas in Hill order', () => {
+    expect(new Composition({ O: 1, N: 1, H: 5, C: 3 }).toFormula()).toBe('C3H5NO');
+    expect(new Composition({ O: 4, H: 3, P: 1 }).toFormula()).toBe('H3O4P');
+    expect(new Composition({ C: 4, '13C': 2, H: 7, O: -1 }).toFormula()).toBe('[13C2]C4H7O-1');
+  });
+
+  it('should calculate monoisotopic masses', () => {
+    expect(new Composition({ H: 2, O: 1 }).monoisotopicMass).toBeCloseTo(18.010565, 5);
+    expect(new Composition({ C: 3, H: 5, N: 1, O: 1 }).withIsotopeLabel('13C').monoisotopicMass)
+      .toBeCloseTo(71.037114 + 3 * 1.003355, 5);
+    expect(() => new Composition({ '99C': 1 }).monoisotopicMass).toThrow('Mass of 99C is not available');
+  });
+
+  it('should give residue compositions', () => {
+    expect(new AminoAcid('M').composition!.toFormula()).toBe('C5H9NOS');
+    expect(new AminoAcid('Z', undefined, 128.0).composition).toBeNull();
+  });
+
+  it('should sum the composition of a sequence', () => {
+    const seq = Sequence.fromProforma('EMEVEESPEK');
+    expect(seq.getComposition().toFormula()).toBe('C49H79N11O22S');
+    expect(seq.getComposition().monoisotopicMass).toBeCloseTo(1205.512184, 4);
+
+    const modified = Sequence.fromProforma('[Acetyl]-EM[Oxidation]EVEESPEK');
+    expect(modified.getComposition().toFormula()).toBe('C51H81N11O24S');
+
+    // Copies keep the compositions of their modifications
+    const formula = new Sequence(Sequence.fromProforma('EM[Formula:O]EVEESPEK'));
+    expect(formula.getComposition().toFormula()).toBe('C49H79N11O23S');
+
+    const unknown = Sequence.fromProforma('EM[Foo]EVEESPEK');
+    expect(() => unknown.getComposition()).toThrow("Composition of modification 'Foo' is not known");
+    unknown.seq[1].mods[0].composition = new Composition({ O: 1 });
+    expect(unknown.getComposition().toFormula()).toBe('C49H79N11O23S');
+  });
+
+  it('should agree with the mass of the sequence', () => {
+    for (const proforma of [
+      'PEPTIDEU', 'PEPTIDEO', 'ACDEFGHIKLMNOPQRSTUVWY', '[Acetyl]-EM[Oxidation]EVEES[Phospho]PEK-[Amidated]',
+      '<[Carbamidomethyl]@C>PEPCU[Formula:O]K', '<15N>PEPTIDEUO', '<13C>[Acetyl]-EM[Oxidation]K[Formula:C2H2O]',
+      'PEPTIDE//PEPTIDE', '<[Oxidation]@M>AM//M[Phospho]A', 'AM//<15N>MA',
+      'EMEVTK[Formula:C8H10O2#XL1]SESPEK//EMEVTK[#XL1]SESPEK'
+    ]) {
+      const seq = Sequence.fromProforma(proforma);
+      expect(seq.getComposition().monoisotopicMass).toBeCloseTo(seq.getMass(), 4);
+      expect(seq.getComposition().averageMass).toBeCloseTo(seq.getMass('average'), 2);
+    }
+  });
+
+  it('should add the chains of a multi-chain sequence', () => {
+    const single = Sequence.fromProforma('PEPTIDE').getComposition();
+    expect(Sequence.fromProforma('PEPTIDE//PEPTIDE').getComposition().toFormula()).toBe(single.add(single).toFormula());
+    expect(Sequence.fromProforma('PEPTIDE//PEPTIDE').getComposition().toFormula()).toBe('C68H106N14O30');
+  });
+
+  it('should count range modifications once and skip references', () => {
+    const seq = Sequence.fromProforma('PRT(ESFRMS)[Oxidation]IS[Phospho#g1]K[#g1]');
+    seq.seq[3].mods[0].composition = new Composition({ O: 1 });
+    seq.seq[10].mods[0].composition = new Composition({ H: 1, O: 3, P: 1 });
+
+    const base = Sequence.fromProforma('PRTESFRMSISK').getComposition();
+    expect(seq.getComposition().subtract(base).toFormula()).toBe('HO4P');
+  });
+
+  it('should label residues and modifications', () => {
+    const seq = Sequence.fromProforma('<15N>PEPM[Oxidation]K');
+    seq.seq[3].mods[0].composition = new Composition({ O: 1, N: 1 });
+
+    const composition = seq.getComposition();
+    expect(composition.count('15N')).toBe(7);
+    expect(composition.count('N')).toBe(0);
+  });
+
+  it('should apply global fixed modifications', () => {
+    const seq = Sequence.fromProforma('<[Oxidation]@M>PEPMK');
+    expect(seq.getComposition().subtract(Sequence.fromProforma('PEPMK').getComposition()).toFormula()).toBe('O');
+    expect(() => Sequence.fromProforma('PEPXK').getComposition()).not.toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Modification } from '../modification';
+import { PsiModResolver, ResidResolver, XlModResolver } from '../obo';
+import { CompositeResolver } from '../resolver';
+import { Sequence } from '../sequence';
+import { UnimodResolver } from '../unimod';
+
+/**
+ * One example from the ProForma 2.0 specification. Optional fields that are left out
+ * are expected to be empty on the parsed Sequence.
+ */
+interface SpecExample {
+  feature: string;
+  input: string;
+  /** Expected toProforma() output when it differs from the input */
+  canonical?: string;
+  sequence: string;
+  /** Per-residue modifications, excluding modifications applied through a range */
+  mods?: Record<string, string[]>;
+  /** [start, end, modifications] with inclusive residue indices */
+  ranges?: [number, number, string[]][];
+  nTerm?: string[];
+  cTerm?: string[];
+  labile?: string[];
+  unknownPosition?: string[];
+  globals?: string[];
+  sequenceAmbiguities?: [string, number][];
+  charge?: number;
+  ionicSpecies?: string;
+  chains?: string[];
+  peptidoforms?: string[];
+  peptidoformName?: string;
+  peptidoformIonName?: string;
+  compoundIonName?: string;
+  /**
+   * Expected getMass() of the neutral peptidoform, one per peptidoform of a chimeric
+   * spectrum, or null when a modification has no mass in the test vocabularies
+   */
+  monoisotopicMass: number | number[] | null;
+}
+
+const examples: SpecExample[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'data', 'proforma_spec_examples.json'), 'utf8')
+);
+
+const vocabulary = (file: string) => fs.readFileSync(path.join(__dirname, 'data', 'vocabularies', file), 'utf8');
+
+// Subsets of the vocabularies holding the terms that the examples name
+Modification.resolver = new CompositeResolver([
+  UnimodResolver.bundled(),
+  UnimodResolver.fromObo(vocabulary('unimod.obo')),
+  PsiModResolver.fromObo(vocabulary('psi-mod.obo')),
+  ResidResolver.fromPsiModObo(vocabulary('psi-mod.obo')),
+  XlModResolver.fromObo(vocabulary('xlmod.obo'))
+]);
+
+const modList = (mods: Modification[]) => mods.map(m => m.toProforma());
+
+describe('ProForma 2.0 specification examples', () => {
+  afterAll(() => {
+    Modification.resolver = UnimodResolver.bundled();
+  });
+
+  describe.each(examples.map(e => [e.feature, e.input, e] as const))('%s: %s', (_feature, input, example) => {
+    const seq = Sequence.fromProforma(input);
+
+    it('should parse to the expected structure', () => {
+      expect(seq.toStrippedString()).toBe(example.sequence);
+
+      const mods: Record<string, string[]> = {};
+      const ranges = new Map<string, [number, number, string[]]>();
+      seq.seq.forEach((aa, i) => {
+        for (const mod of aa.mods) {
+          if (mod.inRange) {
+            const key = `${mod.rangeStart}-${mod.rangeEnd}`;
+            if (!ranges.has(key)) {
+              ranges.set(key, [mod.rangeStart!, mod.rangeEnd!, modList([mod])]);
+            }
+          } else {
+            (mods[i] = mods[i] || []).push(mod.toProforma());
+          }
+        }
+      });
+      expect(mods).toEqual(example.mods || {});
+      expect([...ranges.values()]).toEqual(example.ranges || []);
+
+      expect(modList(seq.nTermMods)).toEqual(example.nTerm || []);
+      expect(modList(seq.cTermMods)).toEqual(example.cTerm || []);
+      expect(modList(seq.labileMods)).toEqual(example.labile || []);
+      expect(modList(seq.unknownPositionMods)).toEqual(example.unknownPosition || []);
+      expect(seq.globalMods.map(g => g.toProforma())).toEqual(example.globals || []);
+      expect(seq.sequenceAmbiguities.map(a => [a.value, a.position])).toEqual(example.sequenceAmbiguities || []);
+      expect(seq.charge).toBe(example.charge ?? null);
+      expect(seq.ionicSpecies).toBe(example.ionicSpecies ?? null);
+      expect(seq.peptidoformName).toBe(example.peptidoformName ?? null);
+      expect(seq.peptidoformIonName).toBe(example.peptidoformIonName ?? null);
+      expect(seq.compoundIonName).toBe(example.compoundIonName ?? null);
+
+      if (example.chains) {
+        expect(seq.isMultiChain).toBe(true);
+        expect(seq.chains.map(c => c.toStrippedString())).toEqual(example.chains);
+      } else {
+        expect(seq.isMultiChain).toBe(false);
+      }
+      if (example.peptidoforms) {
+        expect(seq.peptidoforms.map(p => p.toStrippedString())).toEqual(example.peptidoforms);
+      } else {
+        expect(seq.peptidoforms.length).toBe(1);
+      }
+    });
+
+    it('should serialize to the canonical form', () => {
+      expect(seq.toProforma()).toBe(example.canonical ?? input);
+    });
+
+    it('should keep the normalized form stable when parsed again', () => {
+      const normalized = seq.toProforma({ canonical: true });
+      expect(Sequence.fromProforma(normalized).toProforma({ canonical: true })).toBe(normalized);
+    });
+
+    it('should have the expected monoisotopic mass', () => {
+      const expected = example.monoisotopicMass;
+      if (expected === null) {
+        expect(() => seq.getMass()).toThrow(/^Mass of modification '.+' is not known$/);
+      } else if (Array.isArray(expected)) {
+        expect(seq.peptidoforms.length).toBe(expected.length);
+        seq.peptidoforms.forEach((peptidoform, i) => expect(peptidoform.getMass()).toBeCloseTo(expected[i], 4));
+      } else {
+        expect(seq.getMass()).toBeCloseTo(expected, 4);
+      }
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { parseFormula } from '../formula';
+import { calculateMass } from '../mass';
+import { Modification } from '../modification';
+import { Sequence } from '../sequence';
+
+describe('parseFormula', () => {
+  it('should count elements and isotopes', () => {
+    expect(parseFormula('C12H20O2').toFormula()).toBe('C12H20O2');
+    expect(parseFormula('HN-1O2').count('N')).toBe(-1);
+    expect(parseFormula('C12 H20 O2').count('H')).toBe(20);
+
+    const labelled = parseFormula('[13C2][12C-2]H2N');
+    expect(labelled.count('13C')).toBe(2);
+    expect(labelled.count('12C')).toBe(-2);
+    expect(parseFormula('C2H3[13C]-1').count('13C')).toBe(-1);
+  });
+
+  it('should calculate monoisotopic and average masses', () => {
+    const phospho = parseFormula('HPO3');
+    expect(phospho.monoisotopicMass).toBeCloseTo(79.966331, 6);
+    expect(phospho.averageMass).toBeCloseTo(79.979902, 6);
+    expect(parseFormula('[13C2]C-2H2N').monoisotopicMass).toBeCloseTo(18.025434, 6);
+  });
+
+  it('should reject invalid formulas', () => {
+    expect(() => parseFormula('')).toThrow("Empty chemical formula ''");
+    expect(() => parseFormula('C2H0')).toThrow("Zero count for 'H'");
+    expect(() => parseFormula('C2Xx')).toThrow("Unknown element 'Xx'");
+    expect(() => parseFormula('[99C]H')).toThrow("Unknown isotope '99C'");
+    expect(() => parseFormula('C2 h3')).toThrow("Invalid chemical formula 'C2 h3' at position 3");
+  });
+});
+
+describe('Formula modifications', () => {
+  it('should take their mass and composition from the formula', () => {
+    const mod = new Modification('Formula:HPO3');
+    expect(mod.mass).toBeCloseTo(79.966331, 6);
+    expect(mod.composition!.toFormula()).toBe('HO3P');
+
+    expect(new Modification('Formula:HPO3#g1').mass).toBeCloseTo(79.966331, 6);
+    expect(new Modification('Phospho|Formula:HPO3').mass).toBeCloseTo(79.966331, 6);
+    expect(new Modification('Formula:C2Xx').mass).toBe(0);
+  });
+
+  it('should be included in sequence masses', () => {
+    const seq = Sequence.fromProforma('PEPS[Formula:HPO3]K');
+    const unmodified = Sequence.fromProforma('PEPSK');
+
+    expect(calculateMass(seq.seq) - calculateMass(unmodified.seq)).toBeCloseTo(79.966331, 6);
+    expect(seq.getComposition().subtract(unmodified.getComposition()).toFormula()).toBe('HO3P');
+  });
+});
@@ -0,0 +1,41 @@
+import { GlycanComposition } from '../glycan';
+import { Modification } from '../modification';
+import { Sequence } from '../sequence';
+
+describe('GlycanComposition', () => {
+  it('should parse monosaccharide counts', () => {
+    const glycan = GlycanComposition.parse('HexNAc2Hex5');
+    expect(glycan.entries()).toEqual([['HexNAc', 2], ['Hex', 5]]);
+    expect(GlycanComposition.parse('HexNAc(2)Hex(5)').entries()).toEqual([['HexNAc', 2], ['Hex', 5]]);
+    expect(GlycanComposition.parse('HexNAcS dHex Hex2').toString()).toBe('HexNAcS1dHex1Hex2');
+  });
+
+  it('should calculate the composition and mass', () => {
+    const glycan = GlycanComposition.parse('HexNAc2Hex5');
+    expect(glycan.composition.toFormula()).toBe('C46H76N2O35');
+    expect(glycan.monoisotopicMass).toBeCloseTo(1216.422862, 5);
+    expect(glycan.monoisotopicMass).toBeCloseTo(glycan.composition.monoisotopicMass, 6);
+    expect(glycan.averageMass).toBeCloseTo(1217.08804, 4);
+    expect(GlycanComposition.parse('HexP').monoisotopicMass).toBeCloseTo(242.019154, 6);
+  });
+
+  it('should reject invalid compositions', () => {
+    expect(() => GlycanComposition.parse('')).toThrow("Empty glycan composition ''");
+    expect(() => GlycanComposition.parse('HexNAc2Foo')).toThrow("Invalid glycan composition 'HexNAc2Foo' at position 7");
+    expect(() => GlycanComposition.parse('Hex0')).toThrow("Zero count for 'Hex'");
+    expect(() => new GlycanComposition({ Foo: 1 })).toThrow("Unknown monosaccharide 'Foo'");
+    expect(Modification.validateGlycan('HexHexNAcFoo')).toBe(false);
+  });
+});
+
+describe('Glycan modifications', () => {
+  it('should take their mass from the glycan composition', () => {
+    const seq = Sequence.fromProforma('{Glycan:Hex}ELVISK[Glycan:HexNAc2Hex5]ER');
+    expect(seq.labileMods[0].mass).toBeCloseTo(162.052823, 6);
+    expect(seq.seq[5].mods[0].mass).toBeCloseTo(1216.422862, 5);
+    expect(seq.seq[5].mods[0].composition!.toFormula()).toBe('C46H76N2O35');
+
+    expect(new Modification('Glycan:Hex#g1').mass).toBeCloseTo(162.052823, 6);
+    expect(new Modification('Glycan:HexNAc2Foo').mass).toBe(0);
+  });
+});
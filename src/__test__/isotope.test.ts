@@ -0,0 +1,73 @@
+import { Composition } from '../composition';
+import { isotopeDistribution } from '../isotope';
+import { Sequence } from '../sequence';
+
+describe('isotopeDistribution', () => {
+  it('should combine the isotopes of each element', () => {
+    // Bromine has two isotopes of almost equal abundance two mass units apart
+    const bromine = isotopeDistribution(new Composition({ Br: 2 }));
+    expect(bromine.map(peak => peak.offset)).toEqual([0, 2, 4]);
+    expect(bromine[1].abundance).toBe(1);
+    expect(bromine[0].abundance).toBeCloseTo(0.5069 / (2 * 0.4931), 6);
+    expect(bromine[2].mass).toBeCloseTo(2 * 80.9162906, 6);
+
+    const water = isotopeDistribution(new Composition({ H: 2, O: 1 }), { minAbundance: 0 });
+    expect(water[0].mass).toBeCloseTo(18.010565, 6);
+    expect(water[2].abundance).toBeCloseTo(0.00205 / 0.99757, 4);
+  });
+
+  it('should prune the distribution', () => {
+    const protein = new Composition({ C: 5000, H: 8000, N: 1400, O: 1500, S: 40 });
+    const peaks = isotopeDistribution(protein, { minAbundance: 0.5 });
+    const mostAbundant = peaks.find(peak => peak.abundance === 1)!;
+    expect(mostAbundant.offset).toBeGreaterThan(60);
+    expect(peaks.every(peak => peak.abundance >= 0.5)).toBe(true);
+
+    const top = isotopeDistribution(protein, { maxPeaks: 3 });
+    expect(top.map(peak => peak.offset)).toEqual([mostAbundant.offset - 1, mostAbundant.offset, mostAbundant.offset + 1]);
+  });
+
+  it('should treat labelled atoms as fully enriched', () => {
+    const labelled = isotopeDistribution(new Composition({ '13C': 2 }));
+    expect(labelled).toEqual([{ offset: 0, mass: 2 * 13.0033548378, mz: null, abundance: 1 }]);
+    expect(() => isotopeDistribution(new Composition({ C: 2, O: -1 }))).toThrow('negative counts');
+  });
+});
+
+describe('Sequence.getIsotopeDistribution', () => {
+  it('should give the isotope envelope of a charged peptidoform', () => {
+    const peaks = Sequence.fromProforma('EMEVEESPEK/2').getIsotopeDistribution();
+    expect(peaks.map(peak => peak.offset)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(peaks[0].mass).toBeCloseTo(1205.512184, 4);
+    expect(peaks[0].mz).toBeCloseTo(603.76337, 4);
+    expect(peaks[1].abundance).toBeCloseTo(0.5955, 3);
+    expect(peaks[1].mz! - peaks[0].mz!).toBeCloseTo(1.00335 / 2, 3);
+
+    const sodiated = Sequence.fromProforma('EMEVEESPEK/2[+2Na+]').getIsotopeDistribution({ maxPeaks: 1 });
+    expect(sodiated[0].mz).toBeCloseTo(625.74531, 4);
+    expect(Sequence.fromProforma('EMEVEESPEK').getIsotopeDistribution()[0].mz).toBeNull();
+  });
+
+  it('should include modifications and isotope labels', () => {
+    const phospho = Sequence.fromProforma('EMEVEES[Phospho]PEK').getIsotopeDistribution({ charge: 1 });
+    expect(phospho[0].mass).toBeCloseTo(1205.512184 + 79.966331, 4);
+
+    const heavy = Sequence.fromProforma('<15N>EMEVEESPEK').getIsotopeDistribution();
+    expect(heavy[0].mass).toBeCloseTo(1205.512184 + 11 * 0.997035, 4);
+    expect(() => Sequence.fromProforma('EMEVEES[+79.966]PEK').getIsotopeDistribution()).toThrow('is not known');
+  });
+
+  it('should give the envelope of every chain of a multi-chain sequence', () => {
+    const single = Sequence.fromProforma('PEPTIDE');
+    const multiChain = Sequence.fromProforma('PEPTIDE//PEPTIDE');
+    const peaks = multiChain.getIsotopeDistribution({ charge: 2 });
+    expect(peaks[0].mass).toBeCloseTo(2 * single.getMass(), 4);
+    expect(peaks[0].mass).toBeCloseTo(multiChain.getMass(), 4);
+    expect(peaks[0].mz).toBeCloseTo((multiChain.getMass() + 2 * 1.007276) / 2, 4);
+    // Twice the atoms make the heavier peaks more abundant than those of a single chain
+    expect(peaks[1].abundance).toBeGreaterThan(single.getIsotopeDistribution()[1].abundance);
+
+    const labelled = Sequence.fromProforma('<15N>PEPTIDE//PEPTIDE').getIsotopeDistribution();
+    expect(labelled[0].mass).toBeCloseTo(2 * single.getMass() + 2 * 7 * 0.997035, 4);
+  });
+});
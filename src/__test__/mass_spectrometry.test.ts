@@ -0,0 +1,223 @@
+import { Composition } from '../composition';
+import { Ion } from '../ion';
+import { Modification } from '../modification';
+import {
+  ammoniaLoss, FragmentFactory, fragmentImmonium, fragmentInternal, fragmentNeutralLosses, fragmentNonLabile, fragmentTable,
+  fragmentTerminal, waterLoss
+} from '../mass_spectrometry';
+import { Sequence } from '../sequence';
+
+const proton = 1.007277;
+
+describe('fragmentTerminal', () => {
+  it('should give every ion type its terminal group', () => {
+    const rows = fragmentTable(fragmentTerminal(
+      Sequence.fromProforma('PEPTIDE'), ['a', 'b', 'c', 'c-1', 'x', 'y', 'z', 'z+1']
+    ));
+    const mz = (ionType: string, index: number) => rows.find(row => row.ionType === ionType && row.index === index)!.mz;
+
+    expect(rows.length).toBe(8 * 6);
+    expect(mz('b', 1)).toBeCloseTo(97.052764 + proton, 5);
+    expect(mz('a', 1)).toBeCloseTo(mz('b', 1) - 27.994915, 5);
+    expect(mz('c', 2)).toBeCloseTo(mz('b', 2) + 17.026549, 5);
+    expect(mz('c-1', 2)).toBeCloseTo(mz('c', 2) - 1.007825, 5);
+    expect(mz('y', 1)).toBeCloseTo(129.042593 + 18.010565 + proton, 5);
+    expect(mz('x', 1)).toBeCloseTo(mz('y', 1) + 25.979265, 5);
+    expect(mz('z', 3)).toBeCloseTo(mz('y', 3) - 17.026549, 5);
+    expect(mz('z+1', 3)).toBeCloseTo(mz('z', 3) + 1.007825, 5);
+
+    // Complementary b and y ions add up to the precursor
+    expect(mz('b', 2) + mz('y', 5) - 2 * proton).toBeCloseTo(Sequence.fromProforma('PEPTIDE').getMonoisotopicMass(), 5);
+  });
+
+  it('should generate every charge state up to the maximum', () => {
+    const ions = [...fragmentTerminal(Sequence.fromProforma('PEPTIDE'), ['y'], 3)];
+    expect(ions.length).toBe(18);
+    expect(ions.slice(0, 3).map(ion => [ion.ion_type, ion.fragment_number, ion.charge])).toEqual([
+      ['y', 1, 1], ['y', 1, 2], ['y', 1, 3]
+    ]);
+    expect(ions[2].mzCalculate()).toBeCloseTo((129.042593 + 18.010565 + 3 * proton) / 3, 5);
+    expect(() => [...fragmentTerminal(Sequence.fromProforma('PEPTIDE'), ['q'])]).toThrow("Unknown ion type 'q'");
+  });
+
+  it('should place modifications in the fragments holding them', () => {
+    const seq = Sequence.fromProforma('<[Carbamidomethyl]@C>[Acetyl]-PEM[Oxidation]C(TI)[+10]DE-[Amidated]');
+    const rows = fragmentTable(fragmentTerminal(seq));
+    const mz = (ionType: string, index: number) => rows.find(row => row.ionType === ionType && row.index === index)!.mz;
+    const plain = fragmentTable(fragmentTerminal(Sequence.fromProforma('PEMCTIDE')));
+    const plainMz = (ionType: string, index: number) => plain.find(row => row.ionType === ionType && row.index === index)!.mz;
+
+    expect(mz('b', 2) - plainMz('b', 2)).toBeCloseTo(42.010565, 5);
+    expect(mz('b', 4) - plainMz('b', 4)).toBeCloseTo(42.010565 + 15.994915 + 57.021464, 5);
+    expect(mz('b', 5) - plainMz('b', 5)).toBeCloseTo(42.010565 + 15.994915 + 57.021464 + 10, 5);
+    expect(mz('y', 3) - plainMz('y', 3)).toBeCloseTo(-0.984016, 5);
+    expect(mz('y', 4) - plainMz('y', 4)).toBeCloseTo(10 - 0.984016, 5);
+  });
+});
+
+describe('fragmentInternal', () => {
+  it('should generate internal fragments within the length range', () => {
+    const seq = Sequence.fromProforma('PEPTIDEK');
+    const rows = fragmentTable(fragmentInternal(seq, ['internal-b', 'internal-a'], 1, 2, 3));
+
+    // Two and three residue fragments that start after the first and end before the last residue
+    expect(rows.filter(row => row.ionType === 'internal-b').map(row => [row.start, row.index])).toEqual([
+      [1, 2], [1, 3], [2, 2], [2, 3], [3, 2], [3, 3], [4, 2], [4, 3], [5, 2]
+    ]);
+    const ep = rows.find(row => row.ionType === 'internal-b' && row.start === 1 && row.index === 2)!;
+    expect(ep.mz).toBeCloseTo(129.042593 + 97.052764 + proton, 5);
+    const epA = rows.find(row => row.ionType === 'internal-a' && row.start === 1 && row.index === 2)!;
+    expect(epA.mz).toBeCloseTo(ep.mz - 27.994915, 5);
+    expect(() => [...fragmentInternal(seq, ['b'])]).toThrow("Unknown internal ion type 'b'");
+  });
+
+  it('should include the modifications inside the fragment', () => {
+    const rows = fragmentTable(fragmentInternal(Sequence.fromProforma('[Acetyl]-PEPS[Phospho]IDE'), ['internal-b'], 2));
+    const pep = rows.find(row => row.start === 1 && row.index === 3 && row.charge === 1)!;
+    const psi = rows.find(row => row.start === 2 && row.index === 3 && row.charge === 2)!;
+    expect(pep.mz).toBeCloseTo(129.042593 + 97.052764 + 87.032028 + 79.966331 + proton, 5);
+    expect(psi.mz).toBeCloseTo((97.052764 + 87.032028 + 79.966331 + 113.084064 + 2 * proton) / 2, 5);
+  });
+});
+
+describe('fragmentImmonium', () => {
+  it('should give each distinct residue its immonium ion', () => {
+    const rows = fragmentTable(fragmentImmonium(Sequence.fromProforma('PEY[Phospho]PYE')));
+    expect(rows.map(row => row.start)).toEqual([0, 1, 2, 4]);
+    expect(rows[0].mz).toBeCloseTo(70.065126, 5);
+    expect(rows[2].mz).toBeCloseTo(216.042013, 5);
+    expect(rows[3].mz).toBeCloseTo(136.075682, 5);
+  });
+});
+
+describe('fragmentNeutralLosses', () => {
+  const label = (ion: Ion) => `${ion.ion_type}${ion.fragment_number}` +
+    ion.neutral_losses.map(loss => `-${loss.toFormula()}`).join('');
+
+  it('should only lose water and ammonia from fragments holding eligible residues', () => {
+    const ions = [...fragmentNeutralLosses(fragmentTerminal(Sequence.fromProforma('PEPKA'), ['b']))];
+    expect(ions.map(label)).toEqual(['b1', 'b2', 'b2-H2O', 'b3', 'b3-H2O', 'b4', 'b4-H2O', 'b4-H3N']);
+    expect(ions[2].mzCalculate()).toBeCloseTo(ions[1].mzCalculate() - 18.010565, 5);
+    expect([...fragmentNeutralLosses(fragmentTerminal(Sequence.fromProforma('PEPKA'), ['b']), [ammoniaLoss])]
+      .map(label)).toEqual(['b1', 'b2', 'b3', 'b4', 'b4-H3N']);
+  });
+
+  it('should apply losses declared by modifications on their residues', () => {
+    const seq = Sequence.fromProforma('PM[Oxidation]S[Phospho]Y[Phospho]AS[Phospho]');
+    const ions = [...fragmentNeutralLosses(fragmentTerminal(seq, ['b', 'y']), [], 2)];
+    const labels = ions.map(label);
+
+    expect(labels).toContain('b2-CH4OS');
+    expect(labels).toContain('b3-CH4OS-H3O4P');
+    expect(labels).not.toContain('b4-H3O4P-H3O4P');
+    expect(labels).toContain('y3-H3O4P');
+    expect(labels).not.toContain('y3-H3O4P-H3O4P');
+    expect(labels).toContain('y4-H3O4P-H3O4P');
+    expect(labels).not.toContain('y4-CH4OS');
+
+    const b3 = ions.find(ion => label(ion) === 'b3-H3O4P')!;
+    expect(b3.mzCalculate()).toBeCloseTo(ions.find(ion => label(ion) === 'b3')!.mzCalculate() - 97.976896, 5);
+  });
+
+  it('should use losses set on a modification', () => {
+    const seq = Sequence.fromProforma('PEK[Foo|+100]A');
+    seq.seq[2].mods[0].neutralLosses = [{ composition: new Composition({ C: 2, H: 4 }), residues: [] }];
+    expect([...fragmentNeutralLosses(fragmentTerminal(seq, ['y']), [waterLoss])].map(label))
+      .toEqual(['y1', 'y2', 'y2-C2H4', 'y3', 'y3-H2O', 'y3-C2H4']);
+  });
+});
+
+describe('fragmentNonLabile', () => {
+  it('should split the sequence into both sides of each bond', () => {
+    const pairs = [...fragmentNonLabile(Sequence.fromProforma('PEPTIDE'), 'by')];
+    expect(pairs.length).toBe(6);
+    const [left, right]: [Ion, Ion] = pairs[1];
+    expect(left.toStrippedString()).toBe('PE');
+    expect(right.toStrippedString()).toBe('PTIDE');
+    expect(right.mzCalculate()).toBeCloseTo(Sequence.fromProforma('PTIDE').getMonoisotopicMass() + proton, 5);
+  });
+
+  it('should give modifications of unknown mass no mass in the m/z', () => {
+    const plain = [...fragmentNonLabile(Sequence.fromProforma('PEPTIDE'), 'by')][3];
+    for (const proforma of ['PEPT[Foo]IDE', 'PEPT[INFO:hello]IDE']) {
+      const [left, right] = [...fragmentNonLabile(Sequence.fromProforma(proforma), 'by')][3];
+      expect(left.mzCalculate()).toBeCloseTo(plain[0].mzCalculate(), 6);
+      expect(right.mzCalculate()).toBeCloseTo(plain[1].mzCalculate(), 6);
+    }
+
+    const [unknown] = [...fragmentNonLabile(Sequence.fromProforma('PEPT[Foo]IDE'), 'by')][3];
+    expect(() => unknown.getIonMass()).toThrow("Mass of modification 'Foo' is not known");
+    // The inherited getMass is the mass of the residues as a peptidoform, with water
+    expect(plain[0].getMass() - plain[0].getIonMass()).toBeCloseTo(18.010565, 5);
+  });
+});
+
+describe('FragmentFactory', () => {
+  const annotations = (ions: Ion[]) => ions.map(ion => ion.annotation);
+
+  it('should generate the ion types of each activation preset', () => {
+    const seq = Sequence.fromProforma('PEPTIDE');
+    expect(new FragmentFactory('HCD').ion_types).toEqual(['b', 'y']);
+    expect(new FragmentFactory('etd').ion_types).toEqual(['c', 'z+1']);
+    expect(new FragmentFactory('EThcD').ion_types).toEqual(['b', 'y', 'c', 'z+1']);
+    expect(new FragmentFactory('ax').ion_types).toEqual(['a', 'x']);
+
+    const etd = annotations(new FragmentFactory('ETD').fragment(seq));
+    expect(etd.length).toBe(12);
+    expect(etd).toContain('c2');
+    expect(etd).toContain('z3+H');
+    expect(annotations(new FragmentFactory('UVPD').fragment(seq)).length).toBe(36);
+    expect(() => new FragmentFactory('PQD')).toThrow("Unknown activation or ion type 'PQD'");
+    expect(() => new FragmentFactory('by', [], [], { internalIonTypes: ['b'] }))
+      .toThrow("Unknown internal ion type 'b'");
+  });
+
+  it('should limit fragment charges to the precursor charge unless set', () => {
+    const seq = Sequence.fromProforma('PEPTIDEK/3');
+    const ions = new FragmentFactory('CID').fragment(seq);
+    expect(Math.max(...ions.map(ion => ion.charge))).toBe(3);
+    expect(annotations(ions)).toContain('y5^3');
+
+    const singlyCharged = new FragmentFactory('CID', [], [], { maxCharge: 1 }).fragment(seq);
+    expect(singlyCharged.every(ion => ion.charge === 1)).toBe(true);
+  });
+
+  it('should annotate neutral loss, internal and immonium ions', () => {
+    const factory = new FragmentFactory('HCD', [], [waterLoss], {
+      maxCharge: 1, maxLosses: 2, internalIonTypes: ['internal-b', 'internal-a'], immonium: true
+    });
+    const ions = factory.fragment(Sequence.fromProforma('PEPS[Phospho]TIDE'));
+    const labels = annotations(ions);
+
+    expect(labels).toContain('b4-H3O4P');
+    expect(labels).toContain('y4-2H2O');
+    expect(labels).toContain('b4-H2O-H3O4P');
+    expect(labels).toContain('m2:4');
+    expect(labels).toContain('m2:4-CO');
+    expect(labels).toContain('IS[Phospho]');
+    expect(labels).toContain('IP');
+
+    const b4 = ions.find(ion => ion.annotation === 'b4')!;
+    const b4Loss = ions.find(ion => ion.annotation === 'b4-H3O4P')!;
+    expect(b4.mzCalculate() - b4Loss.mzCalculate()).toBeCloseTo(97.976896, 5);
+    expect(fragmentTable(ions).find(row => row.annotation === 'm2:4')!.mz)
+      .toBeCloseTo(129.042593 + 97.052764 + 87.032028 + 79.966331 + proton, 5);
+  });
+
+  it('should leave ignored modifications out of the fragments', () => {
+    const seq = Sequence.fromProforma('<[Carbamidomethyl]@C>[Acetyl]-PEPS[Phospho]CK');
+    const factory = new FragmentFactory('by', [new Modification('Phospho'), new Modification('Acetyl')]);
+    const ions = factory.fragment(seq);
+    const plain = new FragmentFactory('by').fragment(Sequence.fromProforma('PEPSC[Carbamidomethyl]K'));
+
+    expect(annotations(ions)).toEqual(annotations(plain));
+    ions.forEach((ion, i) => expect(ion.mzCalculate()).toBeCloseTo(plain[i].mzCalculate(), 6));
+    expect(annotations(ions).some(label => label.includes('H3O4P'))).toBe(false);
+    // The peptidoform itself is left as it was
+    expect(seq.toProforma()).toBe('<[Carbamidomethyl]@C>[Acetyl]-PEPS[Phospho]CK');
+
+    const withoutCarbamidomethyl = new FragmentFactory('by', [new Modification('Carbamidomethyl')]).fragment(seq);
+    const y2 = withoutCarbamidomethyl.find(ion => ion.annotation === 'y2')!;
+    expect(y2.mzCalculate()).toBeCloseTo(Sequence.fromProforma('CK').getMonoisotopicMass() + proton, 5);
+  });
+});
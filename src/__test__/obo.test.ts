@@ -0,0 +1,197 @@
+import { calculateMass } from '../mass';
+import { Modification } from '../modification';
+import { GnomeResolver, parseObo, parseSpacedFormula, PsiModResolver, ResidResolver, XlModResolver } from '../obo';
+import { CompositeResolver } from '../resolver';
+import { Sequence } from '../sequence';
+import { UnimodResolver } from '../unimod';
+
+const PSI_MOD_OBO = `format-version: 1.2
+ontology: mod
+
+[Term]
+id: MOD:00046
+name: O-phospho-L-serine
+def: "A protein modification that effectively converts an L-serine residue to O-phospho-L-serine." [PubMed:11125103, RESID:AA0037, Unimod:21#S]
+synonym: "O-phosphonoserine" EXACT RESID-systematic []
+synonym: "O-phosphorylserine" EXACT RESID-alternate []
+synonym: "O-phospho-L-serine" EXACT RESID-name []
+synonym: "PSer" EXACT PSI-MOD-label []
+xref: DiffAvg: "79.98"
+xref: DiffFormula: "C 0 H 1 N 0 O 3 P 1"
+xref: DiffMono: "79.966331"
+xref: Formula: "C 3 H 6 N 1 O 5 P 1"
+xref: MassMono: "166.998359"
+xref: Origin: "S"
+xref: Source: "natural"
+xref: TermSpec: "none"
+is_a: MOD:00696 ! phosphorylated residue
+
+[Term]
+id: MOD:00696
+name: phosphorylated residue
+def: "A protein modification that effectively replaces a hydrogen atom with a phosphono group." [PubMed:18688235, Unimod:21]
+xref: DiffAvg: "none"
+xref: DiffFormula: "none"
+xref: DiffMono: "none"
+xref: Origin: "X"
+
+[Term]
+id: MOD:00001
+name: obsolete term
+is_obsolete: true
+
+[Typedef]
+id: part_of
+name: part_of
+`;
+
+const XL_MOD_OBO = `format-version: 1.2
+ontology: xlmod
+
+[Term]
+id: XLMOD:02001
+name: DSS
+def: "Disuccinimidyl suberate." [PMID:12345]
+synonym: "disuccinimidyl suberate" EXACT []
+property_value: bridgeFormula: "C8H10O2" xsd:string
+property_value: deadEndFormula: "C8H12O3" xsd:string
+property_value: monoIsotopicMass: "138.06808" xsd:double
+property_value: reactionSites: "2" xsd:nonNegativeInteger
+property_value: specificities: "(K,S,T,Y,Protein N-term)" xsd:string
+`;
+
+const GNOME_OBO = `format-version: 1.2
+ontology: gno
+
+[Term]
+id: GNO:G80920RR
+name: G80920RR
+def: "A N-linked glycan composition with 2 HexNAc and 5 Hex." []
+synonym: "HexNAc(2)Hex(5)" EXACT GNO:00000034 []
+property_value: GNO:00000021 "G80920RR" xsd:string
+is_a: GNO:G34479LB
+
+[Term]
+id: GNO:G59626AS
+name: G59626AS
+def: "A N-linked glycan topology." []
+property_value: GNO:00000035 "Man5" xsd:string
+relationship: GNO:00000033 GNO:G80920RR
+
+[Term]
+id: GNO:G34479LB
+name: G34479LB
+def: "A glycan of unknown composition." []
+`;
+
+describe('OBO loader', () => {
+  it('should read terms with their tags, synonyms and definition references', () => {
+    const terms = parseObo(PSI_MOD_OBO);
+
+    expect(terms.map(term => term.id)).toEqual(['MOD:00046', 'MOD:00696']);
+    expect(terms[0].def).toBe('A protein modification that effectively converts an L-serine residue to O-phospho-L-serine.');
+    expect(terms[0].defRefs).toEqual(['PubMed:11125103', 'RESID:AA0037', 'Unimod:21#S']);
+    expect(terms[0].synonyms).toContain('PSer');
+    expect(terms[0].tags.get('is_a')).toEqual(['MOD:00696']);
+  });
+
+  it('should parse spaced formulas', () => {
+    expect(parseSpacedFormula('C 0 H 1 N 0 O 3 P 1')!.toFormula()).toBe('HO3P');
+    expect(parseSpacedFormula('(13)C 6 C -6')!.toFormula()).toBe('[13C6]C-6');
+    expect(parseSpacedFormula('none')).toBeNull();
+  });
+});
+
+describe('Ontology resolvers', () => {
+  const psiMod = PsiModResolver.fromObo(PSI_MOD_OBO);
+  const resid = ResidResolver.fromPsiModObo(PSI_MOD_OBO);
+  const xlMod = XlModResolver.fromObo(XL_MOD_OBO);
+  const composite = new CompositeResolver([UnimodResolver.bundled(), psiMod, resid, xlMod]);
+
+  afterEach(() => {
+    Modification.resolver = UnimodResolver.bundled();
+  });
+
+  it('should resolve PSI-MOD terms', () => {
+    const phosphoserine = psiMod.resolve('00046', 'MOD')!;
+    expect(phosphoserine.name).toBe('O-phospho-L-serine');
+    expect(phosphoserine.monoisotopicMass).toBe(79.966331);
+    expect(phosphoserine.composition!.toFormula()).toBe('HO3P');
+    expect(phosphoserine.specificities).toEqual([{ site: 'S', position: 'Anywhere', classification: null }]);
+    expect(phosphoserine.xrefs).toEqual(['RESID:AA0037', 'UNIMOD:21']);
+
+    expect(psiMod.resolve('PSer', 'PSI-MOD')!.accession).toBe('MOD:00046');
+    expect(psiMod.resolve('phosphorylated residue', 'M')!.monoisotopicMass).toBeNull();
+  });
+
+  it('should resolve RESID entries from PSI-MOD cross-references', () => {
+    const entry = resid.resolve('AA0037', 'RESID')!;
+    expect(entry.accession).toBe('RESID:AA0037');
+    expect(entry.name).toBe('O-phospho-L-serine');
+    expect(entry.synonyms).toEqual(['O-phosphonoserine', 'O-phosphorylserine']);
+    expect(entry.xrefs).toEqual(['MOD:00046', 'UNIMOD:21']);
+    expect(resid.resolve('O-phosphorylserine', 'R')!.monoisotopicMass).toBe(79.966331);
+    expect(resid.resolve('AA0037', null)).toBeNull();
+  });
+
+  it('should resolve XL-MOD cross-linkers', () => {
+    const dss = xlMod.resolve('02001', 'XLMOD')!;
+    expect(dss.name).toBe('DSS');
+    expect(dss.monoisotopicMass).toBe(138.06808);
+    expect(dss.composition!.toFormula()).toBe('C8H10O2');
+    expect(dss.specificities.map(spec => `${spec.site}@${spec.position}`)).toEqual([
+      'K@Anywhere', 'S@Anywhere', 'T@Anywhere', 'Y@Anywhere', 'N-term@Protein N-term'
+    ]);
+    expect(xlMod.resolve('disuccinimidyl suberate', 'X')!.accession).toBe('XLMOD:02001');
+  });
+
+  it('should mix vocabularies and follow cross-references', () => {
+    // Unprefixed names resolve against Unimod before PSI-MOD
+    expect(composite.resolve('Phospho', null)!.accession).toBe('UNIMOD:21');
+    expect(composite.resolve('O-phospho-L-serine', null)!.accession).toBe('MOD:00046');
+
+    // A term without a mass takes it from a cross-referenced vocabulary
+    expect(composite.resolve('00696', 'MOD')!.monoisotopicMass).toBeCloseTo(79.966331, 6);
+
+    const unimodPhospho = composite.resolve('21', 'UNIMOD')!;
+    expect(composite.crossReferences(unimodPhospho).map(d => d.accession).sort())
+      .toEqual(['MOD:00046', 'MOD:00696', 'RESID:AA0037']);
+    expect(composite.crossReferences(unimodPhospho, 'R').map(d => d.accession)).toEqual(['RESID:AA0037']);
+    expect(composite.crossReferences(psiMod.resolve('00046', 'MOD')!, 'U').map(d => d.accession)).toEqual(['UNIMOD:21']);
+  });
+
+  it('should give modifications from every vocabulary their mass', () => {
+    Modification.resolver = composite;
+    const seq = Sequence.fromProforma('EMEVTK[XLMOD:02001#XL1]S[MOD:00046]ESK[#XL1]PEK');
+    const unmodified = Sequence.fromProforma('EMEVTKSESKPEK');
+
+    expect(seq.seq[6].mods[0].definition!.accession).toBe('MOD:00046');
+    expect(calculateMass(seq.seq) - calculateMass(unmodified.seq)).toBeCloseTo(138.06808 + 79.966331, 5);
+    expect(new Modification('R:O-phospho-L-serine').mass).toBe(79.966331);
+  });
+
+  it('should resolve GNOme glycan accessions to their compositions', () => {
+    const gnome = GnomeResolver.fromObo(GNOME_OBO);
+
+    const composition = gnome.resolve('G80920RR', 'GNO')!;
+    expect(composition.accession).toBe('GNO:G80920RR');
+    expect(composition.glycan!.toString()).toBe('HexNAc2Hex5');
+    expect(composition.monoisotopicMass).toBeCloseTo(1216.42286, 4);
+    expect(composition.composition!.toFormula()).toBe('C46H76N2O35');
+
+    // Topologies take the composition of the terms they refine
+    expect(gnome.resolve('G59626AS', 'G')!.glycan!.toString()).toBe('HexNAc2Hex5');
+    expect(gnome.resolve('G34479LB', 'G')!.monoisotopicMass).toBeNull();
+    expect(gnome.resolve('G59626AS', null)).toBeNull();
+  });
+
+  it('should give glycopeptides with glycan accessions their mass', () => {
+    Modification.resolver = new CompositeResolver([UnimodResolver.bundled(), GnomeResolver.fromObo(GNOME_OBO)]);
+    const seq = Sequence.fromProforma('EN[GNO:G59626AS]KTK');
+    const glycan = Sequence.fromProforma('EN[Glycan:HexNAc2Hex5]KTK');
+
+    expect(seq.seq[1].mods[0].composition!.toFormula()).toBe('C46H76N2O35');
+    expect(calculateMass(seq.seq)).toBeCloseTo(calculateMass(glycan.seq), 6);
+    expect(seq.toProforma()).toBe('EN[GNO:G59626AS]KTK');
+  });
+});
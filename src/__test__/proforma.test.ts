@@ -1,6 +1,9 @@
 // src/__tests__/proforma.test.ts
-import { ProFormaParser, SequenceAmbiguity } from '../proforma';
+import { Adduct, ProFormaParser, ProFormaSyntaxError, SequenceAmbiguity } from '../proforma';
+import { parseFormula } from '../formula';
 import { GlobalModification, Modification } from '../modification';
+import { ProFormaNode, walkProForma } from '../proforma_ast';
+import { Sequence } from '../sequence';
 
 describe('ProFormaParser', () => {
   describe('Basic sequence parsing', () => {
@@ -348,4 +351,325 @@ describe('ProFormaParser', () => {
       expect(mods[2][0].modValue.infoTags[1]).toBe('RT=34.5 min');
     });
   });
-});
\ No newline at end of file
+
+  describe('Syntax errors', () => {
+    const parseError = (input: string): ProFormaSyntaxError => {
+      try {
+        ProFormaParser.parse(input);
+      } catch (e) {
+        expect(e).toBeInstanceOf(ProFormaSyntaxError);
+        return e as ProFormaSyntaxError;
+      }
+      throw new Error(`Expected '${input}' to fail parsing`);
+    };
+
+    it('should report unclosed brackets with the span to the end of input', () => {
+      const error = parseError('PEP[Phospho');
+
+      expect(error.code).toBe(ProFormaSyntaxError.UNCLOSED_BRACKET);
+      expect(error.span).toEqual([3, 11]);
+      expect(error.expected).toBe(']');
+      expect(error.message).toBe('Unclosed square bracket at position 3');
+    });
+
+    it('should report unmatched closing brackets and braces', () => {
+      expect(parseError('PEP]TIDE').code).toBe(ProFormaSyntaxError.UNMATCHED_BRACKET);
+      expect(parseError('PEP}TIDE').code).toBe(ProFormaSyntaxError.UNMATCHED_BRACE);
+      expect(parseError('PEPT)IDE').code).toBe(ProFormaSyntaxError.UNMATCHED_PARENTHESIS);
+    });
+
+    it('should report offsets relative to the original string', () => {
+      const error = parseError('<15N>[Acetyl]-PEP{Oxidation');
+
+      expect(error.code).toBe(ProFormaSyntaxError.UNCLOSED_BRACE);
+      expect(error.span).toEqual([17, 27]);
+    });
+
+    it('should reject stray hyphens', () => {
+      const error = parseError('PEP-TIDE');
+
+      expect(error.code).toBe(ProFormaSyntaxError.UNEXPECTED_CHARACTER);
+      expect(error.span).toEqual([3, 4]);
+    });
+
+    it('should reject unknown residues', () => {
+      const error = parseError('PEPJTIDE');
+
+      expect(error.code).toBe(ProFormaSyntaxError.UNKNOWN_RESIDUE);
+      expect(error.span).toEqual([3, 4]);
+      expect(error.expected).toBe('amino acid');
+    });
+
+    it('should reject malformed terminal modifications', () => {
+      const missing = parseError('PEPTIDE-');
+      expect(missing.code).toBe(ProFormaSyntaxError.INVALID_TERMINAL);
+      expect(missing.span).toEqual([7, 8]);
+
+      const trailing = parseError('PEPTIDE-[Amidated]K');
+      expect(trailing.code).toBe(ProFormaSyntaxError.INVALID_TERMINAL);
+      expect(trailing.span).toEqual([18, 19]);
+    });
+
+    it('should reject modifications before the first residue', () => {
+      const error = parseError('[Acetyl]PEPTIDE');
+
+      expect(error.code).toBe(ProFormaSyntaxError.MISPLACED_MODIFICATION);
+      expect(error.span).toEqual([0, 8]);
+      expect(error.expected).toBe('-');
+    });
+
+    it('should reject invalid global and labile modifications', () => {
+      expect(parseError('<[Oxidation]@>PEPTIDE').code).toBe(ProFormaSyntaxError.INVALID_GLOBAL);
+      expect(parseError('<[Oxidation]@N-term:a>PEPTIDE').code).toBe(ProFormaSyntaxError.INVALID_GLOBAL);
+      expect(parseError('<15NPEPTIDE').code).toBe(ProFormaSyntaxError.UNCLOSED_GLOBAL);
+      expect(parseError('{Phospho}PEPTIDE').code).toBe(ProFormaSyntaxError.INVALID_LABILE);
+      expect(parseError('[Phospho]^0?PEPTIDE').code).toBe(ProFormaSyntaxError.INVALID_COUNT);
+    });
+
+    it('should reject invalid charge states', () => {
+      expect(parseError('PEPTIDE/x').code).toBe(ProFormaSyntaxError.INVALID_CHARGE);
+
+      const trailing = parseError('PEPTIDE/2abc');
+      expect(trailing.code).toBe(ProFormaSyntaxError.UNEXPECTED_CHARACTER);
+      expect(trailing.span).toEqual([9, 12]);
+    });
+
+    it('should reject strings without residues', () => {
+      expect(parseError('').code).toBe(ProFormaSyntaxError.EMPTY_SEQUENCE);
+      expect(parseError('[Acetyl]-').code).toBe(ProFormaSyntaxError.EMPTY_SEQUENCE);
+    });
+
+    it('should reject empty chains and peptidoforms', () => {
+      const documentError = (input: string): ProFormaSyntaxError => {
+        try {
+          ProFormaParser.parseDocument(input);
+        } catch (e) {
+          expect(e).toBeInstanceOf(ProFormaSyntaxError);
+          return e as ProFormaSyntaxError;
+        }
+        throw new Error(`Expected '${input}' to fail parsing`);
+      };
+
+      const trailingChain = documentError('PEPTIDE//');
+      expect(trailingChain.code).toBe(ProFormaSyntaxError.EMPTY_SEQUENCE);
+      expect(trailingChain.message).toBe("Empty chain after '//' at position 7");
+      expect(trailingChain.span).toEqual([7, 9]);
+      expect(documentError('//PEPTIDE').span).toEqual([0, 2]);
+      expect(documentError('PEPTIDE// //PEPTIDE').span).toEqual([9, 10]);
+
+      const trailingPeptidoform = documentError('PEP+');
+      expect(trailingPeptidoform.message).toBe("Empty peptidoform after '+' at position 3");
+      expect(trailingPeptidoform.span).toEqual([3, 4]);
+      expect(documentError('PEP++EK').span).toEqual([3, 4]);
+      expect(documentError('AM//+MA').span).toEqual([4, 5]);
+
+      // Lenient parsing records the error and keeps the other parts
+      const lenient = ProFormaParser.parseDocument('PEPTIDE//EK+', { lenient: true });
+      expect(lenient.diagnostics.map(d => [d.code, d.start, d.end])).toEqual([['empty_sequence', 11, 12]]);
+      expect(lenient.chains.map(chain => chain.peptidoforms.length)).toEqual([1, 2]);
+      expect(Sequence.fromProforma('PEP+', { lenient: true }).diagnostics.map(d => d.code)).toEqual(['empty_sequence']);
+
+      // Separators inside brackets do not split
+      expect(ProFormaParser.parseDocument('PEPTIDE/2[+Na+,+H+]').chains[0].peptidoforms).toHaveLength(1);
+    });
+
+    it('should reject invalid ionic species', () => {
+      const error = parseError('PEPTIDE/2[+Na+,+Xx+]');
+
+      expect(error.code).toBe(ProFormaSyntaxError.INVALID_IONIC_SPECIES);
+      expect(error.span).toEqual([15, 19]);
+    });
+
+    it('should reject invalid names', () => {
+      expect(parseError('(>)PEPTIDE').code).toBe(ProFormaSyntaxError.INVALID_NAME);
+      expect(parseError('(>>>>name)PEPTIDE').span).toEqual([0, 10]);
+      expect(parseError('(>name PEPTIDE').code).toBe(ProFormaSyntaxError.UNCLOSED_PARENTHESIS);
+
+      // At most one name of each level, from the widest to the narrowest scope
+      const repeated = parseError('(>a)(>b)PEP');
+      expect(repeated.code).toBe(ProFormaSyntaxError.INVALID_NAME);
+      expect(repeated.message).toBe('Repeated peptidoform name at position 4');
+      expect(repeated.span).toEqual([4, 8]);
+      expect(parseError('(>>>a)(>>b)(>>c)PEP').span).toEqual([11, 16]);
+      const misordered = parseError('(>a)(>>>b)PEP');
+      expect(misordered.code).toBe(ProFormaSyntaxError.INVALID_NAME);
+      expect(misordered.message).toBe('The compound ion name must come before the peptidoform name at position 4');
+      expect(parseError('(>>a)(>>>b)PEP').code).toBe(ProFormaSyntaxError.INVALID_NAME);
+      expect(ProFormaParser.parsePeptidoform('(>>>a)(>b)PEP').names.map(name => name.level)).toEqual(['compound', 'peptidoform']);
+
+      // Lenient parsing keeps the first name
+      const lenient = ProFormaParser.parsePeptidoform('(>a)(>b)PEP', { lenient: true });
+      expect(lenient.names.map(name => name.value)).toEqual(['a']);
+      expect(lenient.diagnostics.map(d => d.code)).toEqual(['invalid_name']);
+    });
+  });
+
+  describe('Lenient parsing', () => {
+    it('should collect diagnostics instead of throwing', () => {
+      const [sequence, mods, , , , diagnostics] = ProFormaParser.parse('PEPJ[Phospho]TI]DE', { lenient: true });
+
+      expect(sequence).toBe('PEPXTIDE');
+      expect(mods[3][0].modValue.primaryValue).toBe('Phospho');
+      expect(diagnostics.map(d => d.code)).toEqual([
+        ProFormaSyntaxError.UNKNOWN_RESIDUE,
+        ProFormaSyntaxError.UNMATCHED_BRACKET
+      ]);
+      expect(diagnostics[0].severity).toBe('error');
+      expect([diagnostics[0].start, diagnostics[0].end]).toEqual([3, 4]);
+    });
+
+    it('should keep the residues before an unclosed modification', () => {
+      const [sequence, mods, , , , diagnostics] = ProFormaParser.parse('PEPT{Oxidation', { lenient: true });
+
+      expect(sequence).toBe('PEPT');
+      expect(Object.keys(mods).length).toBe(0);
+      expect(diagnostics.length).toBe(1);
+      expect(diagnostics[0].code).toBe(ProFormaSyntaxError.UNCLOSED_BRACE);
+    });
+
+    it('should treat a modification in front of the sequence as N-terminal', () => {
+      const [sequence, mods, , , , diagnostics] = ProFormaParser.parse('[Acetyl]PEPTIDE', { lenient: true });
+
+      expect(sequence).toBe('PEPTIDE');
+      expect(mods[-1][0].modValue.primaryValue).toBe('Acetyl');
+      expect(diagnostics[0].code).toBe(ProFormaSyntaxError.MISPLACED_MODIFICATION);
+    });
+
+    it('should report invalid glycans and formulas as warnings', () => {
+      const input = 'PEPT[Glycan:HexNAc2Foo]IDE[Formula:C2H3+]';
+      const [sequence, , , , , diagnostics] = ProFormaParser.parse(input, { lenient: true });
+
+      expect(sequence).toBe('PEPTIDE');
+      expect(diagnostics.map(d => [d.severity, d.code])).toEqual([
+        ['warning', ProFormaSyntaxError.INVALID_GLYCAN],
+        ['warning', ProFormaSyntaxError.INVALID_FORMULA]
+      ]);
+      expect([diagnostics[0].start, diagnostics[0].end]).toEqual([4, 23]);
+    });
+
+    it('should report every formula that has no mass', () => {
+      for (const formula of ['XX', 'C2H3Xx', '[99C]H2', 'C0H2', 'XX#g1']) {
+        const input = `PE[Formula:${formula}]P`;
+        const [, , , , , diagnostics] = ProFormaParser.parse(input, { lenient: true });
+        expect(diagnostics.map(d => d.code)).toEqual([ProFormaSyntaxError.INVALID_FORMULA]);
+      }
+      for (const formula of ['C2H3NO', 'HN-1O2', '[13C2]C-2H2N', 'C2 H3', 'C2H3#g1']) {
+        const input = `PE[Formula:${formula}]P`;
+        const [, , , , , diagnostics] = ProFormaParser.parse(input, { lenient: true });
+        expect(diagnostics).toEqual([]);
+        expect(() => Sequence.fromProforma(input).getMass()).not.toThrow();
+      }
+    });
+
+    it('should not report warnings in strict mode', () => {
+      const [sequence, , , , , diagnostics] = ProFormaParser.parse('PEPT[Glycan:HexNAc2Foo]IDE');
+
+      expect(sequence).toBe('PEPTIDE');
+      expect(diagnostics.length).toBe(0);
+    });
+
+    it('should recover the charge state after errors', () => {
+      const [sequence, , , , chargeInfo, diagnostics] = ProFormaParser.parse('PEP]TIDE/2abc', { lenient: true });
+
+      expect(sequence).toBe('PEPTIDE');
+      expect(chargeInfo).toEqual([2, null]);
+      expect(diagnostics.map(d => d.code)).toEqual([
+        ProFormaSyntaxError.UNMATCHED_BRACKET,
+        ProFormaSyntaxError.UNEXPECTED_CHARACTER
+      ]);
+    });
+  });
+
+  describe('Syntax tree', () => {
+    it('should build typed nodes with source spans', () => {
+      const input = '<13C>[Acetyl]-PEP(TI)[+19.0523]DE[Amidated]-[Methyl]/2';
+      const node = ProFormaParser.parsePeptidoform(input);
+
+      expect(node.globals.map(g => [g.raw, g.start, g.end])).toEqual([['13C', 0, 5]]);
+      expect(node.nTerm!.tags.map(t => t.raw)).toEqual(['Acetyl']);
+      expect([node.nTerm!.start, node.nTerm!.end]).toEqual([5, 14]);
+      expect(node.residues.map(r => r.value).join('')).toBe('PEPTIDE');
+      expect(node.residues[6].tags.map(t => [t.raw, t.start, t.end])).toEqual([['Amidated', 33, 43]]);
+      expect(node.ranges).toHaveLength(1);
+      expect(node.ranges[0]).toMatchObject({ startIndex: 3, endIndex: 4, start: 17, end: 31 });
+      expect(node.cTerm!.tags.map(t => t.raw)).toEqual(['Methyl']);
+      expect([node.cTerm!.start, node.cTerm!.end]).toEqual([43, 52]);
+      expect(node.charge).toMatchObject({ charge: 2, ionicSpecies: null, start: 52, end: 54 });
+    });
+
+    it('should keep unknown position counts and labile modifications as single nodes', () => {
+      const node = ProFormaParser.parsePeptidoform('[Phospho]^2?{Glycan:Hex}PEPTIDE');
+
+      expect(node.unknownPositionMods.map(u => [u.tag.raw, u.count, u.start, u.end])).toEqual([['Phospho', 2, 0, 11]]);
+      expect(node.labileMods.map(l => [l.tag.raw, l.tag.enclosure])).toEqual([['Glycan:Hex', 'curly']]);
+      expect(ProFormaParser.parse('[Phospho]^2?{Glycan:Hex}PEPTIDE')[1][-4]).toHaveLength(2);
+    });
+
+    it('should nest chains and chimeric peptidoforms with absolute offsets', () => {
+      const document = ProFormaParser.parseDocument('PEP/1+QRS/2//QWR/3');
+
+      expect(document.chains).toHaveLength(2);
+      expect(document.chains[0].peptidoforms.map(p => [p.start, p.end])).toEqual([[0, 5], [6, 11]]);
+      expect(document.chains[1].peptidoforms[0].residues[0].start).toBe(13);
+    });
+
+    it('should parse ionic species into adducts', () => {
+      const node = ProFormaParser.parsePeptidoform('PEPTIDE/1[+2Na+,-H+]');
+
+      expect(node.charge!.ionicSpecies).toBe('+2Na+,-H+');
+      expect(node.charge!.adducts.map(a => [a.count, a.formula, a.charge])).toEqual([[2, 'Na', 1], [-1, 'H', 1]]);
+      expect(node.charge!.adducts.map(a => a.toString())).toEqual(['+2Na+', '-H+']);
+      expect(ProFormaParser.parsePeptidoform('PEPTIDE/-2[2I-]').charge!.adducts[0].totalCharge).toBe(-2);
+      expect(ProFormaParser.parsePeptidoform('PEPTIDE/-1[+e-]').charge!.adducts[0].mass).toBeCloseTo(0.000549, 6);
+
+      // Ion formulas use the syntax of formula tags, isotopes included
+      const labelled = ProFormaParser.parsePeptidoform('PEPTIDE/1[+[13C]H3+]').charge!.adducts[0];
+      expect(labelled.formula).toBe('[13C]H3');
+      expect(labelled.ionMass).toBeCloseTo(parseFormula('[13C]H3').monoisotopicMass - 0.000549, 6);
+      expect(labelled.toString()).toBe('+[13C]H3+');
+      expect(Adduct.parse('+NH4+')!.ionMass).toBeCloseTo(parseFormula('NH4').monoisotopicMass - 0.000549, 6);
+      expect(Adduct.parse('+Xx+')).toBeNull();
+      expect(Adduct.parse('+[99C]+')).toBeNull();
+      expect(ProFormaParser.parsePeptidoform('PEPTIDE/1[+[99C]+]', { lenient: true }).diagnostics
+        .map(d => d.code)).toContain('invalid_ionic_species');
+
+      // A charge mismatch is only a warning
+      const mismatch = ProFormaParser.parsePeptidoform('PEPTIDE/2[+Na+]', { lenient: true });
+      expect(mismatch.diagnostics.map(d => [d.code, d.severity, d.start, d.end])).toEqual([
+        ['charge_mismatch', 'warning', 10, 14]
+      ]);
+    });
+
+    it('should parse names in front of a peptidoform', () => {
+      const node = ProFormaParser.parsePeptidoform('(>>>Mix)(>>Ion+1)(>Pep 1)<13C>PEPTIDE');
+
+      expect(node.names.map(n => [n.level, n.value, n.start, n.end])).toEqual([
+        ['compound', 'Mix', 0, 8],
+        ['ion', 'Ion+1', 8, 17],
+        ['peptidoform', 'Pep 1', 17, 25]
+      ]);
+      expect(node.globals[0].start).toBe(25);
+      expect(node.ranges).toEqual([]);
+    });
+
+    it('should walk nodes in source order', () => {
+      const document = ProFormaParser.parseDocument('[Acetyl]-PE(?DQ)M[Oxidation]K');
+      const kinds: string[] = [];
+      walkProForma(document, (node: ProFormaNode) => {
+        kinds.push(node.kind);
+      });
+
+      expect(kinds).toEqual([
+        'document', 'chain', 'peptidoform', 'n_term', 'tag',
+        'residue', 'residue', 'sequence_ambiguity', 'residue', 'tag', 'residue'
+      ]);
+    });
+
+    it('should build a sequence from a rewritten tree', () => {
+      const node = ProFormaParser.parsePeptidoform('PEM[Oxidation]TIDE');
+      node.residues[2].tags = [];
+
+      expect(Sequence.fromAst(node).toProforma()).toBe('PEMTIDE');
+    });
+  });
+});
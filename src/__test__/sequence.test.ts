@@ -1,5 +1,9 @@
 import {Sequence, splitChimericProforma} from '../sequence';
+import { calculateMz } from '../mass';
 import { Modification } from '../modification';
+import { Ion, PrecursorIon } from '../ion';
+import { Composition } from '../composition';
+import { AA_average_mass, AA_composition, AA_mass } from '../resources';
 
 describe('ChimericProforma', () => {
   test('split chimeric proforma basic', () => {
@@ -470,6 +474,28 @@ describe('ProForma', () => {
     expect(seq2.toProforma()).toBe(proforma2);
   });
 
+  test('apply global modifications', () => {
+    const seq = Sequence.fromProforma('<13C><[TMT6plex]@K,N-term><[+57.021]@C><[Amidated]@C-term:K>KPEPCTIDEK');
+    expect(seq.globalMods[1].targets).toEqual([
+      { residue: 'K', terminal: null },
+      { residue: null, terminal: 'N-term' }
+    ]);
+    expect(seq.globalMods[3].targets).toEqual([{ residue: 'K', terminal: 'C-term' }]);
+
+    const applied = seq.applyGlobalModifications();
+    expect(applied.toProforma()).toBe('<13C>[TMT6plex]-K[TMT6plex]PEPC[+57.021]TIDEK[TMT6plex]-[Amidated]');
+    expect(applied.seq[4].mods[0].mass).toBeCloseTo(57.021);
+    expect(applied.nTermMods[0].modType).toBe('terminal');
+
+    // The original sequence keeps its global modifications
+    expect(seq.globalMods.length).toBe(4);
+    expect(seq.seq[4].mods).toEqual([]);
+
+    // Terminal rules restricted to a residue only apply when the residue is at the terminus
+    const notApplied = Sequence.fromProforma('<[Acetyl]@N-term:A>PEPTIDE').applyGlobalModifications();
+    expect(notApplied.toProforma()).toBe('PEPTIDE');
+  });
+
   test('sequence ambiguity', () => {
     // Test simple ambiguity
     const proforma = "(?DQ)NGTWEM[Oxidation]ESNENFEGYM[Oxidation]K";
@@ -750,4 +776,337 @@ describe('ProForma', () => {
     expect(seq5.ionicSpecies).toBe('+Na+');
     expect(seq5.toProforma()).toBe(proforma5);
   });
-});
\ No newline at end of file
+
+  test('lenient parsing', () => {
+    const seq = Sequence.fromProforma('PEPJ[Phospho]TIDE', { lenient: true });
+
+    expect(seq.toStrippedString()).toBe('PEPXTIDE');
+    expect(seq.seq[3].mods[0].modValue.primaryValue).toBe('Phospho');
+    expect(seq.diagnostics.length).toBe(1);
+    expect(seq.diagnostics[0].code).toBe('unknown_residue');
+
+    // Diagnostics of chimeric and multi-chain strings use offsets of the whole input
+    const chimeric = Sequence.fromProforma('PEPTIDE/2+ANOTHE[R/3', { lenient: true });
+    expect(chimeric.peptidoforms.length).toBe(2);
+    expect(chimeric.diagnostics.length).toBe(1);
+    expect(chimeric.diagnostics[0].code).toBe('unclosed_bracket');
+    expect(chimeric.diagnostics[0].start).toBe(16);
+
+    const multiChain = Sequence.fromProforma('PEPTIDE//PE]K', { lenient: true });
+    expect(multiChain.chains.length).toBe(2);
+    expect(multiChain.diagnostics[0].start).toBe(11);
+
+    expect(() => Sequence.fromProforma('PEPTIDE//PE]K')).toThrow('position 11');
+  });
+
+  test('adduct charge carriers', () => {
+    const sodiated = Sequence.fromProforma('EMEVEESPEK/2[+2Na+]');
+    expect(sodiated.adducts.map(adduct => adduct.formula)).toEqual(['Na']);
+    expect(new Ion(sodiated, 2).mzCalculate(undefined, true)).toBeCloseTo(625.74531, 4);
+
+    const ammoniated = Sequence.fromProforma('EMEVEESPEK/2[+NH4+,+H+]');
+    expect(new Ion(ammoniated, 2).mzCalculate(undefined, true)).toBeCloseTo(612.27664, 4);
+
+    // Protons are used when there is no ionic species
+    const protonated = Sequence.fromProforma('EMEVEESPEK/2');
+    expect(protonated.adducts).toEqual([]);
+    expect(new Ion(protonated, 2).mzCalculate(undefined, true)).toBeCloseTo(603.76337, 4);
+    expect(calculateMz(1205.512184, -2)).toBeCloseTo(601.74882, 4);
+  });
+
+  test('precursor ions', () => {
+    const mass = 1205.512184;
+    const protonMass = 1.007825 - 0.000549;
+    const precursor = new PrecursorIon(Sequence.fromProforma('EMEVEESPEK/2'));
+    expect(precursor.charge).toBe(2);
+    expect(precursor.chargeCarriers.map(adduct => adduct.toString())).toEqual(['+2H+']);
+    expect(precursor.getMz()).toBeCloseTo((mass + 2 * protonMass) / 2, 5);
+    expect(precursor.getMz(3)).toBeCloseTo((mass + 3 * protonMass) / 3, 5);
+    expect(new PrecursorIon(precursor, -2).getMz()).toBeCloseTo((mass - 2 * protonMass) / 2, 5);
+
+    // Isotope peaks and charge-reduced species
+    expect(new PrecursorIon(precursor, null, 2).getMz()).toBeCloseTo((mass + 2 * 1.003355 + 2 * protonMass) / 2, 5);
+    const reduced = new PrecursorIon(precursor, null, 0, 1);
+    expect(reduced.observedCharge).toBe(1);
+    expect(reduced.getMz()).toBeCloseTo(mass + 2 * 1.007825 - 0.000549, 5);
+
+    // Ionic species from the ProForma string
+    expect(new PrecursorIon(Sequence.fromProforma('EMEVEESPEK/2[+2Na+]')).getMz()).toBeCloseTo(625.74531, 4);
+    const sodiated = new PrecursorIon(Sequence.fromProforma('EMEVEESPEK/2[+2Na+]'), 3);
+    expect(sodiated.chargeCarriers[0].formula).toBe('H');
+    expect(sodiated.getMz(2)).toBeCloseTo((mass + 2 * protonMass) / 2, 5);
+    expect(sodiated.toProforma()).toBe('EMEVEESPEK/3');
+    expect(() => new PrecursorIon(Sequence.fromProforma('EMEVEESPEK/2[+2Na+,+H+]')))
+      .toThrow("The ionic species '+2Na+,+H+' carry a charge of 3, not 2");
+
+    expect(() => new PrecursorIon(Sequence.fromProforma('EMEVEESPEK'))).toThrow('The charge of the precursor is not known');
+    expect(() => new PrecursorIon(precursor, null, 0, 2)).toThrow('Cannot reduce a charge of 2 by 2');
+  });
+
+  test('isotope labels', () => {
+    const light = new Ion(Sequence.fromProforma('EMEVEESPEK'), 2);
+    const heavy = new Ion(Sequence.fromProforma('<13C><15N>EMEVEESPEK'), 2);
+    const deuterated = new Ion(Sequence.fromProforma('<D>EMEVEESPEK'), 1);
+
+    // 49 carbon and 11 nitrogen atoms
+    expect(heavy.mzCalculate(undefined, true) - light.mzCalculate(undefined, true))
+      .toBeCloseTo((49 * 1.003355 + 11 * 0.997035) / 2, 4);
+    expect(deuterated.mzCalculate(undefined, true)).toBeCloseTo(1285.00805 + 1.007277, 3);
+
+    // Fragments keep the labels but not the water
+    const b2 = new Ion(Sequence.fromProforma('<13C>EMEVEESPEK').getItem([0, 2]) as Sequence, 1);
+    expect(b2.mzCalculate()).toBeCloseTo(129.042593 + 131.040485 + 10 * 1.003355 + 1.007277, 3);
+
+    expect(() => new Ion(Sequence.fromProforma('<13X>PEPTIDE')).mzCalculate()).toThrow("Unknown isotope label '13X'");
+
+    // Labels apply to the modifications of known composition too
+    const base = Sequence.fromProforma('EM[Oxidation]K[Formula:C2H2O]').getMass();
+    expect(Sequence.fromProforma('<13C>EM[Oxidation]K[Formula:C2H2O]').getMass() - base).toBeCloseTo(18 * 1.003355, 4);
+    expect(Sequence.fromProforma('<15N>[Formula:N1]-EMK[Formula:N2]').getMass() - Sequence.fromProforma('[Formula:N1]-EMK[Formula:N2]').getMass())
+      .toBeCloseTo(7 * 0.997035, 4);
+    // A mass shift has no composition to label
+    expect(Sequence.fromProforma('<13C>EMK[+42.0106]').getMass() - Sequence.fromProforma('EMK[+42.0106]').getMass())
+      .toBeCloseTo(16 * 1.003355, 4);
+  });
+
+  test('peptidoform masses', () => {
+    const base = 1205.512184;
+    const massOf = (proforma: string) => Sequence.fromProforma(proforma).getMonoisotopicMass();
+    expect(massOf('EMEVEESPEK')).toBeCloseTo(base, 4);
+
+    // Terminal, labile, unknown position and global fixed modifications
+    expect(massOf('[Acetyl]-EMEVEESPEK-[Amidated]')).toBeCloseTo(base + 42.010565 - 0.984016, 4);
+    expect(massOf('{Glycan:Hex}EMEVEESPEK')).toBeCloseTo(base + 162.052824, 4);
+    expect(massOf('[Phospho]^2?EMEVEESPEK')).toBeCloseTo(base + 2 * 79.966331, 4);
+    expect(massOf('<[Oxidation]@M>EMEVEESPEK')).toBeCloseTo(base + 15.994915, 4);
+
+    // Ranges and ambiguous positions count once
+    expect(massOf('EM(EVEES)[+79.966]PEK')).toBeCloseTo(base + 79.966, 4);
+    expect(massOf('EMEVEES[Phospho#g1]PEK[#g1]')).toBeCloseTo(base + 79.966331, 4);
+
+    expect(() => massOf('EM[Foo]EVEESPEK')).toThrow("Mass of modification 'Foo' is not known");
+    expect(massOf('EM[Foo|+15.995]EVEESPEK')).toBeCloseTo(base + 15.995, 4);
+
+    // INFO tags carry no mass and observed masses are mass shifts
+    expect(massOf('EM[INFO:hello]EVEESPEK')).toBeCloseTo(base, 4);
+    expect(massOf('EM[Obs:+15.995]EVEESPEK')).toBeCloseTo(base + 15.995, 4);
+    expect(massOf('EM[Oxidation|Obs:+16.001]EVEESPEK')).toBeCloseTo(base + 15.994915, 4);
+    expect(Sequence.fromProforma('EM[Obs:+15.995]EVEESPEK/2').getMz()).toBeCloseTo((base + 15.995 + 2 * 1.007277) / 2, 4);
+    const observed = Sequence.fromProforma('EM[Obs:+15.995]K').seq[1].mods[0];
+    expect(observed.hasMass).toBe(true);
+    expect(observed.mass).toBe(15.995);
+  });
+
+  test('peptidoform m/z', () => {
+    expect(Sequence.fromProforma('EMEVEESPEK/2').getMz()).toBeCloseTo(603.76337, 4);
+    expect(Sequence.fromProforma('EMEVEESPEK/2[+2Na+]').getMz()).toBeCloseTo(625.74531, 4);
+    expect(Sequence.fromProforma('EMEVEESPEK/2[+2Na+]').getMz(3)).toBeCloseTo((1205.512184 + 3 * 1.007277) / 3, 4);
+    expect(Sequence.fromProforma('EMEVEESPEK').getMz(-1)).toBeCloseTo(1205.512184 - 1.007277, 4);
+    expect(() => Sequence.fromProforma('EMEVEESPEK').getMz()).toThrow('Cannot calculate m/z without a charge state');
+
+    // Ionic species that do not add up to the charge have no m/z, whatever the charge asked for
+    const mismatched = Sequence.fromProforma('EMEVEESPEK/2[+2Na+,+H+]');
+    expect(mismatched.diagnostics.map(d => d.code)).toEqual([]);
+    expect(() => mismatched.getMz()).toThrow("The ionic species '+2Na+,+H+' carry a charge of 3, not 2");
+    expect(() => mismatched.getMz(3)).toThrow('carry a charge of 3, not 2');
+    expect(() => mismatched.getIsotopeDistribution()).toThrow('carry a charge of 3, not 2');
+    expect(mismatched.getIsotopeDistribution({ charge: 3, adducts: mismatched.adducts })[0].mz).toBeCloseTo(
+      (1205.512184 + 2 * (22.989769 - 0.000549) + 1.007276) / 3, 4
+    );
+
+    const crosslinked = Sequence.fromProforma('EMEVTK[Formula:C8H10O2#XL1]SESPEK//EMEVTK[#XL1]SESPEK');
+    const single = Sequence.fromProforma('EMEVTKSESPEK').getMonoisotopicMass();
+    expect(crosslinked.getMonoisotopicMass()).toBeCloseTo(2 * single + 138.06808, 4);
+  });
+
+  test('global modifications of multi-chain sequences', () => {
+    const massOf = (proforma: string) => Sequence.fromProforma(proforma).getMass();
+    const chains = massOf('AM//MA');
+    const oxidation = 15.994915;
+
+    // Globals in front of the first chain apply to every chain, those of a later chain to it alone
+    expect(massOf('<[Oxidation]@M>AM//MA')).toBeCloseTo(chains + 2 * oxidation, 4);
+    expect(massOf('AM//<[Oxidation]@M>MA')).toBeCloseTo(chains + oxidation, 4);
+    expect(massOf('<[Oxidation]@M>AM//<[Oxidation]@M>MA')).toBeCloseTo(chains + 2 * oxidation, 4);
+    expect(massOf('<13C>AM//MA')).toBeCloseTo(chains + 16 * 1.003355, 4);
+    expect(massOf('AM//<13C>MA')).toBeCloseTo(chains + 8 * 1.003355, 4);
+
+    const applied = Sequence.fromProforma('<[Oxidation]@M>AM//MA').applyGlobalModifications();
+    expect(applied.chains.map(chain => chain.seq.map(aa => aa.mods.length))).toEqual([[0, 1], [1, 0]]);
+    expect(applied.chains.every(chain => chain.globalMods.length === 0)).toBe(true);
+
+    // The peptidoforms of a chimeric sequence only have their own
+    expect(massOf('<[Oxidation]@M>AM+MA')).toBeCloseTo(massOf('AM') + oxidation, 4);
+  });
+
+  test('average masses', () => {
+    const seq = Sequence.fromProforma('EMEVEESPEK');
+    expect(seq.getMass()).toBeCloseTo(1205.512184, 4);
+    expect(seq.getMass('average')).toBeCloseTo(seq.getComposition().averageMass, 3);
+    expect(seq.getMass('average')).toBeCloseTo(1206.2771, 3);
+
+    const modified = Sequence.fromProforma('EM[Oxidation]EVEES[Formula:HPO3]PEK[+14.01]');
+    expect(modified.seq[1].mods[0].getMass('average')).toBeCloseTo(15.9994, 4);
+    expect(modified.seq[6].mods[0].getMass('average')).toBeCloseTo(79.9799, 4);
+    expect(modified.seq[9].mods[0].getMass('average')).toBe(14.01);
+    expect(modified.seq[1].getTotalMass('average')).toBeCloseTo(131.1961 + 15.9994, 4);
+    expect(modified.getMass('average') - seq.getMass('average')).toBeCloseTo(15.9994 + 79.9799 + 14.01, 3);
+
+    const labelled = Sequence.fromProforma('<15N>EMEVEESPEK');
+    expect(labelled.getMass('average') - seq.getMass('average')).toBeCloseTo(11 * (15.000109 - 14.0067), 3);
+    expect(new Ion(seq, 2).mzCalculate(undefined, true, 0, 'average')).toBeCloseTo((1206.2771 + 2 * 1.007277) / 2, 3);
+  });
+
+  test('residue mass tables', () => {
+    for (const residue of Object.keys(AA_composition).filter(residue => residue !== 'X')) {
+      const composition = new Composition(AA_composition[residue]);
+      expect(AA_mass[residue]).toBeCloseTo(composition.monoisotopicMass, 4);
+      expect(AA_average_mass[residue]).toBeCloseTo(composition.averageMass, 3);
+      // Selenium is the exception: its lighter isotopes bring the average below 80Se
+      if (residue === 'U') {
+        expect(AA_average_mass[residue]).toBeLessThan(AA_mass[residue]);
+      } else {
+        expect(AA_average_mass[residue]).toBeGreaterThan(AA_mass[residue]);
+      }
+    }
+
+    for (const proforma of ['PEPTIDEU', 'PEPTIDEO']) {
+      const seq = Sequence.fromProforma(proforma);
+      expect(Math.abs(seq.getMass('average') - seq.getMass())).toBeLessThan(1);
+    }
+  });
+
+  test('peptidoform names', () => {
+    const seq = Sequence.fromProforma('(>>>Run 12)(>>scan=1234)(>P1)EM[Oxidation]EVEESPEK/2+(>P2)ELVIS[Phospho]K/2');
+
+    expect(seq.compoundIonName).toBe('Run 12');
+    expect(seq.peptidoformIonName).toBe('scan=1234');
+    expect(seq.peptidoformName).toBe('P1');
+    expect(seq.peptidoforms[1].peptidoformName).toBe('P2');
+    expect(seq.peptidoforms[1].compoundIonName).toBeNull();
+    expect(seq.toProforma()).toBe('(>>>Run 12)(>>scan=1234)(>P1)EM[Oxidation]EVEESPEK/2+(>P2)ELVIS[Phospho]K/2');
+
+    const multiChain = Sequence.fromProforma('(>Heavy)EVQLVESGG//(>Light)DIQMTQSPSS');
+    expect(multiChain.chains.map(chain => chain.peptidoformName)).toEqual(['Heavy', 'Light']);
+    expect(multiChain.toProforma()).toBe('(>Heavy)EVQLVESGG//(>Light)DIQMTQSPSS');
+
+    const renamed = Sequence.fromProforma('PEPTIDE');
+    renamed.peptidoformName = 'decoy';
+    expect(renamed.toProforma()).toBe('(>decoy)PEPTIDE');
+  });
+
+  test('named terminal, labile and unknown position slots', () => {
+    const seq = Sequence.fromProforma('[Phospho]^2?{Glycan:Hex}[Acetyl]-PEPTIDE-[Amidated]');
+
+    expect(seq.nTermMods.map(mod => mod.value)).toEqual(['Acetyl']);
+    expect(seq.cTermMods.map(mod => mod.value)).toEqual(['Amidated']);
+    expect(seq.labileMods.map(mod => mod.toProforma())).toEqual(['Glycan:Hex']);
+    expect(seq.unknownPositionMods.length).toBe(2);
+
+    // The legacy negative keys of mods forward to the same storage
+    expect(seq.mods.get(-1)).toBe(seq.nTermMods);
+    expect(seq.mods.has(-2)).toBe(true);
+    // Slots holding modifications are part of the map, after the residue positions
+    expect([...seq.mods.keys()]).toEqual([-1, -2, -3, -4]);
+    expect(seq.mods.size).toBe(4);
+    expect([...seq.mods.entries()][0]).toEqual([-1, seq.nTermMods]);
+    const visited: number[] = [];
+    seq.mods.forEach((mods, position) => {
+      expect(seq.mods.get(position)).toBe(mods);
+      visited.push(position);
+    });
+    expect(visited).toEqual([...seq.mods.keys()]);
+    const residueMods = new Sequence('PEPTIDE', undefined, { 1: new Modification('Oxidation') });
+    expect([...residueMods.mods.keys()]).toEqual([1]);
+
+    seq.mods.set(-2, [new Modification('Methyl')]);
+    expect(seq.cTermMods.map(mod => mod.value)).toEqual(['Methyl']);
+    seq.mods.delete(-3);
+    expect(seq.labileMods).toEqual([]);
+    expect(seq.mods.has(-3)).toBe(false);
+    expect([...seq.mods.keys()]).toEqual([-1, -2, -4]);
+    expect(seq.toProforma()).toBe('[Phospho]^2?[Acetyl]-PEPTIDE-[Methyl]');
+
+    const cleared = Sequence.fromProforma('[Phospho]?[Acetyl]-PEPTIDE-[Amidated]');
+    cleared.mods.clear();
+    expect(cleared.mods.size).toBe(0);
+    expect(cleared.nTermMods).toEqual([]);
+    expect(cleared.unknownPositionMods).toEqual([]);
+    expect(cleared.mods.has(-1)).toBe(false);
+
+    const legacy = new Sequence('PEPTIDE', undefined, { [-1]: new Modification('Acetyl') });
+    expect(legacy.nTermMods.map(mod => mod.value)).toEqual(['Acetyl']);
+
+    const ion = new Ion(Sequence.fromProforma('{Glycan:Hex}[Acetyl]-PEPTIDE'));
+    expect(ion.nTermMods.map(mod => mod.value)).toEqual(['Acetyl']);
+    expect(ion.labileMods.map(mod => mod.toProforma())).toEqual(['Glycan:Hex']);
+    expect(ion.mods.get(-1)).toBe(ion.nTermMods);
+    expect(ion.has_labile).toBe(true);
+  });
+
+  test('canonical proforma', () => {
+    const seq = Sequence.fromProforma('<[Oxidation]@M,C><13C>EM[Unimod:Oxidation]EVT[#g1(0.10)]S[PSI-MOD:00046#g1(0.90)]E[+15.995]K[Unimod:35]');
+
+    expect(seq.toProforma()).toBe('<[Oxidation]@M,C><13C>EM[Unimod:Oxidation]EVT[#g1(0.10)]S[PSI-MOD:00046#g1(0.90)]E[+15.995]K[Unimod:35]');
+    const canonical = seq.toProforma({ canonical: true });
+    expect(canonical).toBe('<13C><[Oxidation]@C,M>EM[U:Oxidation]EVT[#g1(0.1)]S[MOD:00046#g1(0.9)]E[+15.9950]K[UNIMOD:35]');
+    expect(Sequence.fromProforma(canonical).toProforma({ canonical: true })).toBe(canonical);
+    expect(seq.toProforma({ canonical: true, massPrecision: 1 })).toContain('E[+16.0]');
+
+    // Negative masses with a source prefix must not be written with a doubled sign
+    const sourced = Sequence.fromProforma('PEPS[U:-18.0106]K');
+    sourced.seq[3].mods[0].modValue.pipeValues[0].mass = -18.0106;
+    expect(sourced.toProforma()).toBe('PEPS[U:-18.0106]K');
+    expect(sourced.toProforma({ canonical: true })).toBe('PEPS[U:-18.0106]K');
+
+    // Zero is a mass like any other, and takes its sign after rounding
+    const canonicalOf = (proforma: string) => Sequence.fromProforma(proforma).toProforma({ canonical: true });
+    for (const zero of ['PEPS[+0]K', 'PEPS[+0.0]K', 'PEPS[-0]K', 'PEPS[-0.00001]K', 'PEPS[+0.00001]K']) {
+      expect(canonicalOf(zero)).toBe('PEPS[+0.0000]K');
+    }
+    expect(canonicalOf('PEPS[U:-0.0]K')).toBe('PEPS[U:+0.0000]K');
+    expect(canonicalOf('PEPS[-0.00006]K')).toBe('PEPS[-0.0001]K');
+    expect(Sequence.fromProforma('PEPS[-0]K').toProforma()).toBe('PEPS[+0]K');
+  });
+
+  test('canonical proforma is independent of how the peptidoform was written', () => {
+    const same = (a: string, b: string) =>
+      expect(Sequence.fromProforma(a).toProforma({ canonical: true }))
+        .toBe(Sequence.fromProforma(b).toProforma({ canonical: true }));
+
+    same('EM[Oxidation][Deamidated]K', 'EM[Deamidated][Oxidation]K');
+    same('[Acetyl][Formyl]-EMK-[Amidated][Methyl]', '[Formyl][Acetyl]-EMK-[Methyl][Amidated]');
+    same('{Glycan:Hex}{Glycan:NeuAc}EMK', '{Glycan:NeuAc}{Glycan:Hex}EMK');
+    same('[Phospho][Oxidation]?EMSK', '[Oxidation][Phospho]?EMSK');
+    same('EM[Formula:O]K', 'EM[Formula:O1]K');
+    same('EM[Formula:C2H3NO]K', 'EM[Formula:H3C2ON1]K');
+    same('EN[Glycan:Hex1HexNAc1]K', 'EN[Glycan:HexNAcHex]K');
+
+    expect(Sequence.fromProforma('EM[Deamidated][Oxidation]K').toProforma({ canonical: true })).toBe('EM[Deamidated][Oxidation]K');
+    expect(Sequence.fromProforma('EN[Glycan:HexNAc(2)Hex]K').toProforma({ canonical: true })).toBe('EN[Glycan:Hex1HexNAc2]K');
+    expect(Sequence.fromProforma('EM[Formula:O1]K').toProforma({ canonical: true })).toBe('EM[Formula:O]K');
+    // The written order is kept outside canonical mode
+    expect(Sequence.fromProforma('EM[Oxidation][Deamidated]K').toProforma()).toBe('EM[Oxidation][Deamidated]K');
+  });
+
+  test('chains and peptidoforms are written with their own globals', () => {
+    const canonical = (proforma: string) => Sequence.fromProforma(proforma).toProforma({ canonical: true });
+    for (const proforma of [
+      '<[Oxidation]@M>AM//MA',
+      'AM//<[Oxidation]@M>MA',
+      '<13C>AM//<15N>MA',
+      '<[Oxidation]@M>AM+MA',
+      'AM+<[Oxidation]@M>MA',
+      'AM//(?DQ)MA'
+    ]) {
+      expect(Sequence.fromProforma(proforma).toProforma()).toBe(proforma);
+      expect(canonical(proforma)).toBe(proforma);
+    }
+    expect(canonical('AM//<[Oxidation]@M>MA')).not.toBe(canonical('AM//MA'));
+    expect(canonical('AM+<[Oxidation]@M>MA')).not.toBe(canonical('AM+MA'));
+
+    // Writing a sequence out and parsing it again keeps its mass
+    const multiChain = Sequence.fromProforma('<[Oxidation]@M>AM//MA');
+    expect(Sequence.fromProforma(multiChain.toProforma()).getMass()).toBeCloseTo(multiChain.getMass(), 6);
+  });
+});
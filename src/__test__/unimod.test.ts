@@ -0,0 +1,233 @@
+import { calculateMass } from '../mass';
+import { Modification, ModificationValue } from '../modification';
+import { ModificationDefinition, ModificationResolver } from '../resolver';
+import { Sequence } from '../sequence';
+import { UnimodResolver } from '../unimod';
+
+const UNIMOD_OBO = `format-version: 1.2
+ontology: unimod
+
+[Term]
+id: UNIMOD:0
+name: unimod root node
+def: "The root node of the unimod modifications ontology." []
+
+[Term]
+id: UNIMOD:21
+name: Phospho
+def: "Phosphorylation." [RESID:AA0036]
+synonym: "Phosphorylation" RELATED []
+xref: record_id "21"
+xref: delta_mono_mass "79.966331"
+xref: delta_avge_mass "79.9799"
+xref: delta_composition "H O(3) P"
+xref: spec_1_site "T"
+xref: spec_1_position "Anywhere"
+xref: spec_1_classification "Post-translational"
+xref: spec_1_neutral_loss_0_mono_mass "0"
+xref: spec_1_neutral_loss_0_composition "0"
+xref: spec_1_neutral_loss_97_mono_mass "97.976896"
+xref: spec_1_neutral_loss_97_composition "H(3) O(4) P"
+xref: spec_2_site "S"
+xref: spec_2_position "Anywhere"
+xref: spec_2_classification "Post-translational"
+is_a: UNIMOD:0 ! unimod root node
+
+[Term]
+id: UNIMOD:146
+name: Hex(1)HexNAc(1)dHex(1)
+xref: delta_mono_mass "511.190105"
+xref: delta_avge_mass "511.4756"
+xref: delta_composition "dHex Hex HexNAc"
+
+[Term]
+id: UNIMOD:2000
+name: Massless
+def: "An entry without a delta." []
+`;
+
+const UNIMOD_XML = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<umod:unimod xmlns:umod="http://www.unimod.org/xmlns/schema/unimod_2">
+  <umod:modifications>
+    <umod:mod title="Oxidation" full_name="Oxidation or Hydroxylation" record_id="35">
+      <umod:specificity hidden="0" site="M" position="Anywhere" classification="Post-translational" spec_group="1">
+        <umod:NeutralLoss mono_mass="0" avge_mass="0" flag="false" composition="0"/>
+        <umod:NeutralLoss mono_mass="63.998285" avge_mass="64.1069" flag="false" composition="H(4) C O S"/>
+      </umod:specificity>
+      <umod:specificity hidden="1" site="W" position="Anywhere" classification="Artefact" spec_group="2"/>
+      <umod:delta mono_mass="15.994915" avge_mass="15.9994" composition="O">
+        <umod:element symbol="O" number="1"/>
+      </umod:delta>
+      <umod:alt_name>Hydroxylation</umod:alt_name>
+    </umod:mod>
+    <umod:mod title="Glu-&gt;pyro-Glu" full_name="Pyro-glu from E" record_id="27">
+      <umod:specificity hidden="0" site="E" position="Any N-term" classification="Artefact" spec_group="1"/>
+      <umod:delta mono_mass="-18.010565" avge_mass="-18.0153" composition="H(-2) O(-1)"/>
+    </umod:mod>
+    <umod:mod title="Massless" full_name="An entry without a delta" record_id="2000">
+    </umod:mod>
+  </umod:modifications>
+</umod:unimod>
+`;
+
+describe('UnimodResolver', () => {
+  const bundled = UnimodResolver.bundled();
+
+  it('should resolve names and accession numbers from the bundled snapshot', () => {
+    const phospho = bundled.resolve('Phospho', null)!;
+    expect(phospho.accession).toBe('UNIMOD:21');
+    expect(phospho.monoisotopicMass).toBeCloseTo(79.966331, 6);
+    expect(phospho.averageMass).toBeCloseTo(79.9799, 3);
+    expect(phospho.composition!.toFormula()).toBe('HO3P');
+    expect(phospho.specificities).toContainEqual({ site: 'Y', position: 'Anywhere', classification: null });
+    expect(phospho.specificities[0].neutralLosses!.map(loss => loss.toFormula())).toEqual(['H3O4P']);
+
+    expect(bundled.resolve('Oxidation', 'U')!.accession).toBe('UNIMOD:35');
+    expect(bundled.resolve('35', 'UNIMOD')!.name).toBe('Oxidation');
+    expect(bundled.resolve('oxidation', 'unimod')!.name).toBe('Oxidation');
+    expect(bundled.resolve('TMT6plex', null)!.monoisotopicMass).toBeCloseTo(229.162932, 6);
+    expect(bundled.resolve('Acetyl', null)!.specificities).toContainEqual(
+      { site: 'N-term', position: 'Protein N-term', classification: null }
+    );
+  });
+
+  it('should not resolve other vocabularies or unknown names', () => {
+    expect(bundled.resolve('Phospho', 'MOD')).toBeNull();
+    expect(bundled.resolve('Foo', null)).toBeNull();
+  });
+
+  it('should load a Unimod OBO file', () => {
+    const resolver = UnimodResolver.fromObo(UNIMOD_OBO);
+
+    const phospho = resolver.resolve('Phosphorylation', null)!;
+    expect(phospho.name).toBe('Phospho');
+    expect(phospho.averageMass).toBe(79.9799);
+    expect(phospho.specificities).toEqual([
+      { site: 'T', position: 'Anywhere', classification: 'Post-translational', neutralLosses: [expect.anything()] },
+      { site: 'S', position: 'Anywhere', classification: 'Post-translational' }
+    ]);
+    expect(phospho.specificities[0].neutralLosses![0].toFormula()).toBe('H3O4P');
+    expect(resolver.resolve('146', 'UNIMOD')!.composition!.toFormula()).toBe('C20H33NO14');
+    expect(resolver.resolve('Oxidation', null)).toBeNull();
+
+    // A missing delta is an unknown mass, not 0
+    expect(resolver.resolve('Massless', null)!.monoisotopicMass).toBeNull();
+    expect(resolver.resolve('Massless', null)!.averageMass).toBeNull();
+  });
+
+  it('should load a Unimod XML file', () => {
+    const resolver = UnimodResolver.fromXml(UNIMOD_XML);
+
+    const oxidation = resolver.resolve('Hydroxylation', null)!;
+    expect(oxidation.accession).toBe('UNIMOD:35');
+    expect(oxidation.monoisotopicMass).toBe(15.994915);
+    expect(oxidation.specificities.map(s => s.site)).toEqual(['M', 'W']);
+    expect(oxidation.specificities[0].neutralLosses!.map(loss => loss.toFormula())).toEqual(['CH4OS']);
+    expect(oxidation.specificities[1].neutralLosses).toBeUndefined();
+    expect(resolver.resolve('Glu->pyro-Glu', 'U')!.composition!.toFormula()).toBe('H-2O-1');
+
+    const massless = resolver.resolve('Massless', null)!;
+    expect(massless.monoisotopicMass).toBeNull();
+    expect(massless.averageMass).toBeNull();
+    Modification.resolver = resolver;
+    try {
+      expect(new Modification('Massless').hasMass).toBe(false);
+      expect(() => Sequence.fromProforma('PEPT[Massless]IDE').getMass()).toThrow("Mass of modification 'Massless' is not known");
+    } finally {
+      Modification.resolver = UnimodResolver.bundled();
+    }
+  });
+
+  it('should parse Unimod delta compositions', () => {
+    expect(UnimodResolver.parseComposition('H(-1) 2H(3) C O(2)')!.toFormula()).toBe('C[2H3]H-1O2');
+    expect(UnimodResolver.parseComposition('Hex(2)')!.toFormula()).toBe('C12H20O10');
+    expect(UnimodResolver.parseComposition('Kdn')).toBeNull();
+  });
+});
+
+describe('Modification resolution', () => {
+  afterEach(() => {
+    Modification.resolver = UnimodResolver.bundled();
+  });
+
+  it('should give named modifications their mass', () => {
+    const seq = Sequence.fromProforma('[Acetyl]-EM[U:Oxidation]EVEES[UNIMOD:21]PEK');
+    expect(seq.nTermMods[0].mass).toBeCloseTo(42.010565, 6);
+    expect(seq.seq[1].mods[0].definition!.name).toBe('Oxidation');
+    expect(calculateMass(seq.seq) - calculateMass(Sequence.fromProforma('EMEVEESPEK').seq))
+      .toBeCloseTo(15.994915 + 79.966331, 5);
+
+    // Explicit masses, synonyms and references
+    expect(new Modification('Phospho|+80').mass).toBe(80);
+    expect(new Modification('Foo|Oxidation').mass).toBeCloseTo(15.994915, 6);
+    expect(new Modification('Phospho#g1').mass).toBeCloseTo(79.966331, 6);
+    expect(new Modification('#g1').definition).toBeNull();
+    expect(new Modification('Foo').mass).toBe(0);
+  });
+
+  it('should use the configured resolver', () => {
+    const custom: ModificationResolver = {
+      resolve: (name: string): ModificationDefinition | null => name === 'Custom' ? {
+        source: 'LOCAL', accession: 'LOCAL:1', name, synonyms: [],
+        monoisotopicMass: 100, averageMass: 100.1, composition: null, specificities: [], xrefs: []
+      } : null
+    };
+
+    Modification.resolver = custom;
+    expect(new Modification('Custom').mass).toBe(100);
+    expect(new Modification('Phospho').mass).toBe(0);
+
+    Modification.resolver = null;
+    expect(new Modification('Custom').definition).toBeNull();
+  });
+
+  it('should resolve a modification once per resolver', () => {
+    const names: string[] = [];
+    const counting = (mass: number): ModificationResolver => ({
+      resolve: (name: string): ModificationDefinition | null => {
+        names.push(name);
+        return name === 'Custom' ? {
+          source: 'LOCAL', accession: 'LOCAL:1', name, synonyms: [],
+          monoisotopicMass: mass, averageMass: mass, composition: null, specificities: [], xrefs: []
+        } : null;
+      }
+    });
+
+    Modification.resolver = counting(100);
+    const mod = new Modification('Custom');
+    expect(mod.mass).toBe(100);
+    expect(mod.hasMass).toBe(true);
+    expect(mod.getMass('average')).toBe(100);
+    expect(mod.definition!.accession).toBe('LOCAL:1');
+    expect(names).toEqual(['Custom']);
+
+    // Copies resolve again rather than carrying the resolver along
+    const seq = new Sequence(Sequence.fromProforma('PEPT[Custom]IDE'));
+    expect(seq.seq[3].mods[0].mass).toBe(100);
+    expect(Object.keys(seq.seq[3].mods[0])).not.toContain('_resolved');
+
+    // Changing the resolver or the value resolves the modification again
+    Modification.resolver = counting(200);
+    expect(mod.mass).toBe(200);
+    mod.modValue = new ModificationValue('Other');
+    expect(mod.definition).toBeNull();
+  });
+
+  it('should keep masses of zero', () => {
+    const zero: ModificationResolver = {
+      resolve: (name: string): ModificationDefinition | null => name === 'Zero' ? {
+        source: 'LOCAL', accession: 'LOCAL:0', name, synonyms: [],
+        monoisotopicMass: 0, averageMass: 0, composition: null, specificities: [], xrefs: []
+      } : null
+    };
+
+    expect(new Modification('Phospho|+0').mass).toBe(0);
+    expect(new Modification('Phospho|+0').getMass('average')).toBe(0);
+    expect(new Modification('+0').hasMass).toBe(true);
+
+    Modification.resolver = zero;
+    expect(new Modification('Zero|Obs:+5.0').mass).toBe(0);
+    expect(new Modification('Zero|Obs:+5.0').getMass('average')).toBe(0);
+    expect(new Modification('Zero').hasMass).toBe(true);
+  });
+});
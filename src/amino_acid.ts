@@ -1,6 +1,8 @@
 import { BaseBlock } from './base_block';
+import { Composition } from './composition';
+import { MassType } from './mass';
 import { Modification } from './modification';
-import { AA_mass } from './resources';
+import { AA_average_mass, AA_composition, AA_mass } from './resources';
 
 /**
  * Represents an amino acid block that can carry position, modifications, and amino acid value.
@@ -34,6 +36,28 @@ export class AminoAcid extends BaseBlock {
     return [...this._mods]; // Return a copy to prevent direct modification
   }
 
+  /**
+   * Get the elemental composition of the residue without its modifications, or null when it
+   * is not known, e.g. for an amino acid given only by mass.
+   */
+  get composition(): Composition | null {
+    const composition = AA_composition[this.value];
+    return composition ? new Composition(composition) : null;
+  }
+
+  /**
+   * Get the mass of the residue without its modifications. A mass given in place of the
+   * tabulated one, e.g. for an amino acid given only by mass, is used for both mass types.
+   *
+   * @param massType - Whether to give the monoisotopic or the average mass
+   */
+  getMass(massType: MassType = "monoisotopic"): number | null {
+    if (massType === "average" && this.mass === AA_mass[this.value]) {
+      return AA_average_mass[this.value];
+    }
+    return this.mass;
+  }
+
   /**
    * Add a modification to this amino acid.
    *
@@ -92,14 +116,13 @@ export class AminoAcid extends BaseBlock {
   /**
    * Calculate the total mass including all modifications.
    *
+   * @param massType - Whether to give the monoisotopic or the average mass
    * @returns The total mass of the amino acid with all modifications
    */
-  getTotalMass(): number {
-    let total = this.mass || 0;
+  getTotalMass(massType: MassType = "monoisotopic"): number {
+    let total = this.getMass(massType) || 0;
     for (const mod of this._mods) {
-      if (mod.mass) {
-        total += mod.mass;
-      }
+      total += mod.getMass(massType);
     }
     return total;
   }
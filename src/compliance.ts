@@ -0,0 +1,301 @@
+/**
+ * Classification of ProForma strings by the ProForma 2.0 compliance levels they require.
+ */
+
+import { ProFormaParser } from './proforma';
+import { ProFormaDocument, ProFormaNode, TagNode, walkProForma } from './proforma_ast';
+import { Sequence } from './sequence';
+
+export type ComplianceLevel = "base" | "level2" | "top_down" | "cross_linking" | "glycan" | "spectral";
+
+/**
+ * All compliance levels in the order of the specification.
+ */
+export const COMPLIANCE_LEVELS: readonly ComplianceLevel[] = [
+  "base",
+  "level2",
+  "top_down",
+  "cross_linking",
+  "glycan",
+  "spectral"
+];
+
+/**
+ * The compliance levels covering each feature. A feature listing several levels is
+ * supported by any one of them, e.g. chemical formulas belong to both the top-down
+ * and the glycan extensions.
+ */
+export const FEATURE_LEVELS: Readonly<Record<string, readonly ComplianceLevel[]>> = {
+  // Base level support
+  named_modification: ["base"],
+  accession: ["base"],
+  mass_shift: ["base"],
+  terminal_modification: ["base"],
+  labile_modification: ["base"],
+  ambiguous_modification: ["base"],
+  ambiguity_group: ["base"],
+  localization_score: ["base"],
+  range_modification: ["base"],
+  unknown_position_modification: ["base"],
+  info_tag: ["base"],
+  // Additional separate support (level 2)
+  unusual_amino_acid: ["level2"],
+  ambiguous_amino_acid: ["level2"],
+  gap: ["level2"],
+  prefixed_name: ["level2"],
+  prefixed_mass_shift: ["level2"],
+  observed_mass: ["level2"],
+  joint_representation: ["level2"],
+  global_modification: ["level2"],
+  isotope_labeling: ["level2"],
+  sequence_ambiguity: ["level2"],
+  // Top-down extensions
+  resid_modification: ["top_down"],
+  formula: ["top_down", "glycan"],
+  // Cross-linking extensions
+  crosslink: ["cross_linking"],
+  branch: ["cross_linking"],
+  xlmod_modification: ["cross_linking"],
+  multi_chain: ["cross_linking"],
+  // Glycan extensions
+  gno_modification: ["glycan"],
+  glycan_composition: ["glycan"],
+  // Spectral support
+  charge: ["spectral"],
+  ionic_species: ["spectral"],
+  chimeric: ["spectral"]
+};
+
+/**
+ * A ProForma feature found in the input, with the span it was found at.
+ */
+export interface DetectedFeature {
+  feature: string;
+  levels: readonly ComplianceLevel[];
+  start: number;
+  end: number;
+}
+
+export interface ComplianceReport {
+  /** Smallest set of compliance levels covering every detected feature, in specification order */
+  levels: ComplianceLevel[];
+  features: DetectedFeature[];
+}
+
+const MASS_SHIFT = /^[+-]\d+(\.\d+)?$/;
+
+/**
+ * Validates ProForma strings against the compliance levels a consumer supports.
+ */
+export class ComplianceValidator {
+  supportedLevels: ComplianceLevel[];
+
+  /**
+   * @param supportedLevels - The levels the consumer can handle; base level support is always assumed
+   */
+  constructor(supportedLevels: ComplianceLevel[] = [...COMPLIANCE_LEVELS]) {
+    this.supportedLevels = supportedLevels;
+  }
+
+  /**
+   * Detect the features used by a ProForma string, Sequence or parsed document and the
+   * compliance levels they require.
+   *
+   * @throws ProFormaSyntaxError if a string cannot be parsed
+   */
+  static analyze(input: string | Sequence | ProFormaDocument): ComplianceReport {
+    const document = ComplianceValidator._toDocument(input);
+    const features: DetectedFeature[] = [];
+
+    const add = (feature: string, start: number, end: number): void => {
+      features.push({ feature, levels: FEATURE_LEVELS[feature], start, end });
+    };
+
+    walkProForma(document, (node: ProFormaNode) => {
+      switch (node.kind) {
+        case "chain":
+          if (node.peptidoforms.length > 1) {
+            add("chimeric", node.start, node.end);
+          }
+          break;
+        case "global":
+          add(node.modification.globalModType === "isotope" ? "isotope_labeling" : "global_modification", node.start, node.end);
+          break;
+        case "unknown_position":
+          add("unknown_position_modification", node.start, node.end);
+          break;
+        case "labile":
+          add("labile_modification", node.start, node.end);
+          break;
+        case "n_term":
+        case "c_term":
+          add("terminal_modification", node.start, node.end);
+          break;
+        case "range":
+          add("range_modification", node.start, node.end);
+          break;
+        case "sequence_ambiguity":
+          add("sequence_ambiguity", node.start, node.end);
+          break;
+        case "residue":
+          if (node.value === "O" || node.value === "U") {
+            add("unusual_amino_acid", node.start, node.start + 1);
+          } else if ("BJXZ".includes(node.value)) {
+            const isGap = node.tags.some(tag => tag.modification.modType === "gap");
+            add(isGap ? "gap" : "ambiguous_amino_acid", node.start, node.start + 1);
+          }
+          break;
+        case "charge":
+          add("charge", node.start, node.end);
+          if (node.ionicSpecies) {
+            add("ionic_species", node.start, node.end);
+          }
+          break;
+        case "tag":
+          for (const feature of ComplianceValidator._tagFeatures(node)) {
+            add(feature, node.start, node.end);
+          }
+          break;
+      }
+    });
+
+    if (document.chains.length > 1) {
+      add("multi_chain", document.start, document.end);
+    }
+
+    features.sort((a, b) => a.start - b.start);
+    return { levels: ComplianceValidator._requiredLevels(features), features };
+  }
+
+  /**
+   * Get the features of the input that none of the supported levels cover.
+   */
+  unsupportedFeatures(input: string | Sequence | ProFormaDocument | ComplianceReport): DetectedFeature[] {
+    const report = typeof input !== "string" && "features" in input ? input : ComplianceValidator.analyze(input);
+    return report.features.filter(
+      detected => !detected.levels.some(level => level === "base" || this.supportedLevels.includes(level))
+    );
+  }
+
+  /**
+   * Check whether every feature of the input is covered by the supported levels.
+   */
+  isSupported(input: string | Sequence | ProFormaDocument | ComplianceReport): boolean {
+    return this.unsupportedFeatures(input).length === 0;
+  }
+
+  private static _toDocument(input: string | Sequence | ProFormaDocument): ProFormaDocument {
+    if (typeof input === "string") {
+      return ProFormaParser.parseDocument(input);
+    }
+    if (input instanceof Sequence) {
+      return ProFormaParser.parseDocument(input.toProforma());
+    }
+    return input;
+  }
+
+  /**
+   * Classify the components of a single modification tag.
+   */
+  private static _tagFeatures(tag: TagNode): string[] {
+    const features: string[] = [];
+    let interpretations = 0;
+
+    if (tag.enclosure === "curly" && tag.modification.modType === "ambiguous") {
+      features.push("ambiguous_modification");
+    }
+
+    for (const component of tag.raw.split("|")) {
+      const hashPos = component.indexOf("#");
+      const value = hashPos === -1 ? component : component.substring(0, hashPos);
+
+      if (value) {
+        const feature = ComplianceValidator._valueFeature(value);
+        features.push(feature);
+        if (feature !== "info_tag") {
+          interpretations += 1;
+        }
+      }
+
+      if (hashPos !== -1) {
+        const reference = component.substring(hashPos + 1);
+        if (reference === "BRANCH") {
+          features.push("branch");
+        } else if (reference.startsWith("XL")) {
+          features.push("crosslink");
+        } else {
+          features.push("ambiguity_group");
+          if (/\([\d.]+\)$/.test(reference)) {
+            features.push("localization_score");
+          }
+        }
+      }
+    }
+
+    if (interpretations > 1) {
+      features.push("joint_representation");
+    }
+    return features;
+  }
+
+  /**
+   * Classify a modification value by its source prefix.
+   */
+  private static _valueFeature(value: string): string {
+    const colonPos = value.indexOf(":");
+    const prefix = colonPos === -1 ? "" : value.substring(0, colonPos).toUpperCase();
+    const body = colonPos === -1 ? value : value.substring(colonPos + 1);
+
+    switch (prefix) {
+      case "INFO":
+        return "info_tag";
+      case "U":
+      case "M":
+        return MASS_SHIFT.test(body) ? "prefixed_mass_shift" : "prefixed_name";
+      case "UNIMOD":
+      case "MOD":
+      case "PSI-MOD":
+        return MASS_SHIFT.test(body) ? "prefixed_mass_shift" : "accession";
+      case "R":
+      case "RESID":
+        return "resid_modification";
+      case "X":
+      case "XL":
+      case "XLMOD":
+      case "XL-MOD":
+        return "xlmod_modification";
+      case "G":
+      case "GNO":
+        return "gno_modification";
+      case "FORMULA":
+        return "formula";
+      case "GLYCAN":
+        return "glycan_composition";
+      case "OBS":
+        return "observed_mass";
+      case "MASS":
+        return "mass_shift";
+      default:
+        return MASS_SHIFT.test(value) ? "mass_shift" : "named_modification";
+    }
+  }
+
+  /**
+   * Pick the smallest set of levels covering all features, preferring the first listed
+   * level of a feature that several levels cover.
+   */
+  private static _requiredLevels(features: DetectedFeature[]): ComplianceLevel[] {
+    const levels = new Set<ComplianceLevel>(["base"]);
+    for (const detected of features) {
+      if (detected.levels.length === 1) {
+        levels.add(detected.levels[0]);
+      }
+    }
+    for (const detected of features) {
+      if (!detected.levels.some(level => levels.has(level))) {
+        levels.add(detected.levels[0]);
+      }
+    }
+    return COMPLIANCE_LEVELS.filter(level => levels.has(level));
+  }
+}
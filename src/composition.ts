@@ -0,0 +1,174 @@
+/**
+ * Elemental compositions of residues, modifications and sequences.
+ */
+
+import { element_average_mass, element_mass, isotope_mass } from './resources';
+
+const ATOM_PATTERN = /^(\d*)([A-Z][a-z]?)$/;
+
+/**
+ * Get the labelled element and the mass of its heavy isotope for an isotope label.
+ *
+ * @param label - A label such as `13C`, `15N` or `D`
+ * @returns The element symbol and the monoisotopic mass of the heavy isotope
+ */
+export function parseIsotopeLabel(label: string): [string, number] {
+  const key = label === "D" ? "2H" : label;
+  const match = /^\d+([A-Z][a-z]?)$/.exec(key);
+  if (!match || !(key in isotope_mass)) {
+    throw new Error(`Unknown isotope label '${label}'`);
+  }
+  return [match[1], isotope_mass[key]];
+}
+
+/**
+ * Element counts of a molecule. Atoms of a specific isotope are kept under their own key
+ * made of the mass number and the element, e.g. `13C` next to `C`. Counts may be negative,
+ * e.g. for the difference described by a modification.
+ *
+ * Compositions are immutable; arithmetic returns a new Composition.
+ */
+export class Composition {
+  private readonly _counts: Map<string, number> = new Map();
+
+  /**
+   * @param counts - Count of each element or isotope; `D` is stored as `2H`
+   */
+  constructor(counts: Record<string, number> | Map<string, number> = {}) {
+    const entries = counts instanceof Map ? counts.entries() : Object.entries(counts);
+    for (const [atom, count] of entries) {
+      const key = atom === "D" ? "2H" : atom;
+      if (!ATOM_PATTERN.test(key)) {
+        throw new Error(`Invalid element or isotope '${atom}'`);
+      }
+      if (count !== 0) {
+        this._counts.set(key, (this._counts.get(key) || 0) + count);
+      }
+    }
+  }
+
+  /**
+   * Get the count of an element or isotope.
+   */
+  count(atom: string): number {
+    return this._counts.get(atom === "D" ? "2H" : atom) || 0;
+  }
+
+  /**
+   * Get the element and isotope counts, omitting zero counts.
+   */
+  entries(): [string, number][] {
+    return [...this._counts.entries()].filter(([, count]) => count !== 0);
+  }
+
+  isEmpty(): boolean {
+    return this.entries().length === 0;
+  }
+
+  /**
+   * Add another composition, optionally several times.
+   */
+  add(other: Composition, times: number = 1): Composition {
+    const counts = new Map(this._counts);
+    for (const [atom, count] of other.entries()) {
+      counts.set(atom, (counts.get(atom) || 0) + count * times);
+    }
+    return new Composition(counts);
+  }
+
+  subtract(other: Composition): Composition {
+    return this.add(other, -1);
+  }
+
+  multiply(times: number): Composition {
+    return new Composition().add(this, times);
+  }
+
+  /**
+   * Replace every atom of the labelled element by its heavy isotope.
+   *
+   * @param label - An isotope label such as `13C`, `15N` or `D`
+   */
+  withIsotopeLabel(label: string): Composition {
+    const [element] = parseIsotopeLabel(label);
+    const isotope = label === "D" ? "2H" : label;
+    const counts = new Map(this._counts);
+    counts.set(isotope, (counts.get(isotope) || 0) + (counts.get(element) || 0));
+    counts.delete(element);
+    return new Composition(counts);
+  }
+
+  equals(other: Composition): boolean {
+    const entries = this.entries();
+    return entries.length === other.entries().length && entries.every(([atom, count]) => other.count(atom) === count);
+  }
+
+  /**
+   * Monoisotopic mass from the most abundant isotope of each element and the exact mass
+   * of each specified isotope.
+   */
+  get monoisotopicMass(): number {
+    return this._mass(element_mass);
+  }
+
+  /**
+   * Average mass from the standard atomic weight of each element and the exact mass of
+   * each specified isotope.
+   */
+  get averageMass(): number {
+    return this._mass(element_average_mass);
+  }
+
+  private _mass(elementMasses: {[key: string]: number}): number {
+    let mass = 0;
+    for (const [atom, count] of this.entries()) {
+      const atomMass = ATOM_PATTERN.exec(atom)![1] ? isotope_mass[atom] : elementMasses[atom];
+      if (atomMass === undefined) {
+        throw new Error(`Mass of ${atom} is not available`);
+      }
+      mass += atomMass * count;
+    }
+    return mass;
+  }
+
+  /**
+   * Write the composition as a ProForma chemical formula in Hill order (carbon, hydrogen,
+   * then alphabetical), with isotopes in brackets before their element, e.g. `[13C2]C4H7NO`.
+   */
+  toFormula(): string {
+    const atoms = this.entries().map(([atom, count]) => {
+      const [, massNumber, element] = ATOM_PATTERN.exec(atom)!;
+      return { atom, element, massNumber: massNumber ? parseInt(massNumber) : 0, count };
+    });
+    const hasCarbon = atoms.some(atom => atom.element === "C");
+    const rank = (element: string): string => {
+      if (hasCarbon && element === "C") {
+        return "0";
+      }
+      if (hasCarbon && element === "H") {
+        return "1";
+      }
+      return `2${element}`;
+    };
+
+    atoms.sort((a, b) => {
+      const byElement = rank(a.element).localeCompare(rank(b.element));
+      // Isotopes are written before the element itself
+      return byElement !== 0 ? byElement : (a.massNumber || Infinity) - (b.massNumber || Infinity);
+    });
+
+    return atoms.map(({ atom, massNumber, count }) => {
+      const countStr = count === 1 ? "" : `${count}`;
+      return massNumber ? `[${atom}${countStr}]` : `${atom}${countStr}`;
+    }).join("");
+  }
+
+  toString(): string {
+    return this.toFormula();
+  }
+}
+
+/**
+ * Water, added once to the residues of a peptide for its termini.
+ */
+export const WATER = new Composition({ H: 2, O: 1 });
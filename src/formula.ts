@@ -0,0 +1,49 @@
+/**
+ * Parser for the chemical formulas of ProForma `Formula:` tags.
+ */
+
+import { Composition } from './composition';
+import { element_mass, isotope_mass } from './resources';
+
+// An isotope in brackets with its count inside or after the brackets, or an element, each
+// followed by an optional count
+const FORMULA_TOKEN = /\s*(?:\[(\d+)([A-Z][a-z]?)(-?\d+)?\]|([A-Z][a-z]?))(-?\d+)?\s*/y;
+
+/**
+ * Parse a chemical formula such as `C2H3NO`, `HN-1O2` or `[13C2]C-2H2N` into element and
+ * isotope counts. Whitespace between element groups is allowed.
+ *
+ * @param formula - The formula without the `Formula:` prefix
+ * @returns The composition described by the formula
+ * @throws Error if the formula is malformed, has a zero count, or uses an unknown element
+ *         or isotope
+ */
+export function parseFormula(formula: string): Composition {
+  const counts = new Map<string, number>();
+  FORMULA_TOKEN.lastIndex = 0;
+
+  while (FORMULA_TOKEN.lastIndex < formula.length) {
+    const start = FORMULA_TOKEN.lastIndex;
+    const match = FORMULA_TOKEN.exec(formula);
+    if (!match) {
+      throw new Error(`Invalid chemical formula '${formula}' at position ${start}`);
+    }
+
+    const [, massNumber, isotopeElement, isotopeCount, element, count] = match;
+    const atom = massNumber ? `${massNumber}${isotopeElement}` : element;
+    if (massNumber ? !(atom in isotope_mass) : !(atom in element_mass)) {
+      throw new Error(`Unknown ${massNumber ? "isotope" : "element"} '${atom}' in chemical formula '${formula}'`);
+    }
+
+    const total = (isotopeCount ? parseInt(isotopeCount) : 1) * (count ? parseInt(count) : 1);
+    if (total === 0) {
+      throw new Error(`Zero count for '${atom}' in chemical formula '${formula}'`);
+    }
+    counts.set(atom, (counts.get(atom) || 0) + total);
+  }
+
+  if (counts.size === 0) {
+    throw new Error(`Empty chemical formula '${formula}'`);
+  }
+  return new Composition(counts);
+}
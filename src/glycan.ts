@@ -0,0 +1,105 @@
+/**
+ * Glycan compositions of ProForma `Glycan:` tags.
+ */
+
+import { Composition } from './composition';
+import { glycan_block_composition, glycan_block_dict, monosaccharides } from './resources';
+
+// A monosaccharide followed by an optional count, written as `Hex5` or `Hex(5)`. Longer
+// names come first so that `HexNAc` is not read as `Hex`
+const GLYCAN_TOKEN = new RegExp(
+  "\\s*(" + [...monosaccharides].sort((a, b) => b.length - a.length).join("|") + ")(?:(\\d+)|\\((\\d+)\\))?\\s*",
+  "y"
+);
+
+/**
+ * Monosaccharide counts of a glycan, such as `HexNAc2Hex5`.
+ */
+export class GlycanComposition {
+  private readonly _counts: Map<string, number> = new Map();
+
+  /**
+   * @param counts - Count of each monosaccharide
+   */
+  constructor(counts: Record<string, number> | Map<string, number>) {
+    const entries = counts instanceof Map ? counts.entries() : Object.entries(counts);
+    for (const [monosaccharide, count] of entries) {
+      if (!(monosaccharide in glycan_block_dict)) {
+        throw new Error(`Unknown monosaccharide '${monosaccharide}'`);
+      }
+      this._counts.set(monosaccharide, (this._counts.get(monosaccharide) || 0) + count);
+    }
+  }
+
+  /**
+   * Parse a glycan composition such as `HexNAc2Hex5` or `HexNAc(2)Hex(5)`. A monosaccharide
+   * without a count is counted once.
+   *
+   * @param glycan - The composition without the `Glycan:` prefix
+   * @throws Error if the composition is empty, has a zero count or an unknown monosaccharide
+   */
+  static parse(glycan: string): GlycanComposition {
+    const counts = new Map<string, number>();
+    GLYCAN_TOKEN.lastIndex = 0;
+
+    while (GLYCAN_TOKEN.lastIndex < glycan.length) {
+      const start = GLYCAN_TOKEN.lastIndex;
+      const match = GLYCAN_TOKEN.exec(glycan);
+      if (!match) {
+        throw new Error(`Invalid glycan composition '${glycan}' at position ${start}`);
+      }
+
+      const [, monosaccharide, count, bracketedCount] = match;
+      const total = parseInt(count ?? bracketedCount ?? "1");
+      if (total === 0) {
+        throw new Error(`Zero count for '${monosaccharide}' in glycan composition '${glycan}'`);
+      }
+      counts.set(monosaccharide, (counts.get(monosaccharide) || 0) + total);
+    }
+
+    if (counts.size === 0) {
+      throw new Error(`Empty glycan composition '${glycan}'`);
+    }
+    return new GlycanComposition(counts);
+  }
+
+  /**
+   * Get the count of a monosaccharide.
+   */
+  count(monosaccharide: string): number {
+    return this._counts.get(monosaccharide) || 0;
+  }
+
+  /**
+   * Get the monosaccharide counts in the order they were given.
+   */
+  entries(): [string, number][] {
+    return [...this._counts.entries()];
+  }
+
+  /**
+   * Elemental composition of the glycan as attached to a residue, i.e. the sum of its
+   * monosaccharide residues.
+   */
+  get composition(): Composition {
+    return this.entries().reduce(
+      (composition, [monosaccharide, count]) =>
+        composition.add(new Composition(glycan_block_composition[monosaccharide]), count),
+      new Composition()
+    );
+  }
+
+  get monoisotopicMass(): number {
+    return this.entries().reduce(
+      (mass, [monosaccharide, count]) => mass + glycan_block_dict[monosaccharide] * count, 0
+    );
+  }
+
+  get averageMass(): number {
+    return this.composition.averageMass;
+  }
+
+  toString(): string {
+    return this.entries().map(([monosaccharide, count]) => `${monosaccharide}${count}`).join("");
+  }
+}
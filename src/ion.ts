@@ -1,11 +1,8 @@
+import { Composition } from './composition';
 import { Sequence } from './sequence';
-import { calculateMass } from './mass';
-import { proton } from './resources';
-import { Modification } from './modification';
-
-const modifier = {
-  "b": -18 - 19,
-};
+import { calculateMz, MassType } from './mass';
+import { Adduct } from './proforma';
+import { electron, ion_type_composition, isotope_mass } from './resources';
 
 /**
  * Represents an ion fragment sequence object, inheriting properties from the Sequence class.
@@ -18,8 +15,11 @@ export class Ion extends Sequence {
   charge: number;
   ion_type: string | null;
   fragment_number: number | null;
-  mods: Map<number, Modification[]>;
+  /** Index of the first residue of an internal or immonium ion in the sequence */
+  fragment_start: number | null;
   has_labile: boolean;
+  /** Compositions lost from the ion, e.g. water for a b-H2O ion */
+  neutral_losses: Composition[] = [];
 
   /**
    * Initialize an Ion object.
@@ -28,25 +28,35 @@ export class Ion extends Sequence {
    * @param charge - The charge of the ion (default is 1)
    * @param ion_type - The name of the transition type
    * @param fragment_number - The number of the transition
+   * @param fragment_start - The index of the first residue, for internal and immonium ions
    */
   constructor(
     seq: Sequence,
     charge: number = 1,
     ion_type: string | null = null,
-    fragment_number: number | null = null
+    fragment_number: number | null = null,
+    fragment_start: number | null = null
   ) {
     super(seq);
     this.charge = charge;
     this.ion_type = ion_type;
     this.fragment_number = fragment_number;
-    this.mods = new Map();
-    this.has_labile = false;
+    this.fragment_start = fragment_start;
+    // Rebuild the residue positions from the residues. Clearing also empties the terminal,
+    // labile and unknown position slots, so the copies taken from the sequence are put back
+    const { nTermMods, cTermMods, labileMods, unknownPositionMods } = this;
+    this.mods.clear();
+    this.nTermMods = nTermMods;
+    this.cTermMods = cTermMods;
+    this.labileMods = labileMods;
+    this.unknownPositionMods = unknownPositionMods;
+    this.has_labile = this.labileMods.some(m => m.labile);
 
     // Iterating through each amino acid position and build a modification list for the ion
     this.seq.forEach((aa, i) => {
       if (aa.mods) {
         for (const m of aa.mods) {
-          if (!(i in this.mods)) {
+          if (!this.mods.has(i)) {
             this.mods.set(i, []);
           }
 
@@ -59,22 +69,193 @@ export class Ion extends Sequence {
     });
   }
 
+  /**
+   * Calculate the neutral mass of the ion: its residues and their modifications plus the
+   * terminal group of its ion type, e.g. water for a y ion, less its neutral losses. Ions of
+   * other types, such as a whole peptide, get no terminal group. Isotope labels are applied
+   * to the residues, their modifications, the terminal group and the losses.
+   *
+   * Unlike `getMass`, which gives the mass of the residues as a whole peptidoform, no water is
+   * added for the termini unless the ion type holds them.
+   *
+   * @param massType - Whether to give the monoisotopic or the average mass
+   * @returns The neutral mass of the ion
+   * @throws Error if the mass of a residue or modification is not known
+   */
+  getIonMass(massType: MassType = "monoisotopic"): number {
+    return this._ionMass(massType, false, true);
+  }
+
+  private _ionMass(massType: MassType, withWater: boolean, requireModMass: boolean): number {
+    const isotopeLabels = this.globalMods
+      .filter(mod => mod.globalModType === "isotope")
+      .map(mod => mod.value);
+    let mass = this._blockMass(massType, isotopeLabels, withWater, requireModMass);
+    const label = (composition: Composition) =>
+      isotopeLabels.reduce((labelled, isotope) => labelled.withIsotopeLabel(isotope), composition);
+    if (this.ion_type !== null && this.ion_type in ion_type_composition) {
+      const terminal = label(new Composition(ion_type_composition[this.ion_type]));
+      mass += massType === "average" ? terminal.averageMass : terminal.monoisotopicMass;
+    }
+    for (const loss of this.neutral_losses.map(label)) {
+      mass -= massType === "average" ? loss.averageMass : loss.monoisotopicMass;
+    }
+    return mass;
+  }
+
   /**
    * Calculate the mass-to-charge ratio (m/z) of the ion.
    *
+   * Isotope labels such as `<13C>` are applied to the residues and modifications. The parsed ionic species are
+   * used as charge carriers when their total charge matches, otherwise the charge is assumed
+   * to come from protons. A modification of unknown mass, such as an unresolved name, adds
+   * nothing; use `getIonMass` to have it throw instead.
+   *
    * @param charge - The charge of the ion. If not specified, the object's charge is used
-   * @param with_water - Whether the mass will be calculated with or without water
+   * @param with_water - Whether to add water, for ions without an ion type
    * @param extra_mass - Extra modification of mass that is not represented within the sequence
+   * @param massType - Whether to use monoisotopic or average masses
    * @returns The calculated m/z value of the ion
    */
-  mzCalculate(charge?: number, with_water: boolean = false, extra_mass: number = 0): number {
+  mzCalculate(
+    charge?: number,
+    with_water: boolean = false,
+    extra_mass: number = 0,
+    massType: MassType = "monoisotopic"
+  ): number {
     if (!charge) {
       charge = this.charge;
     }
-    const m = calculateMass(this.seq, undefined, 0, 0, with_water) + extra_mass;
+    const m = this._ionMass(massType, with_water, false) + extra_mass;
 
-    // Charge is calculated with the hardcoded mass of protons
-    const mi = (m + charge * proton) / charge;
-    return mi;
+    const adductCharge = this.adducts.reduce((sum, adduct) => sum + adduct.totalCharge, 0);
+    return calculateMz(m, charge, adductCharge === charge ? this.adducts : []);
+  }
+
+  /**
+   * Get the peak annotation of the ion in the style of mzPAF, e.g. `b2`, `y3-H2O^2`,
+   * `m2:4` for an internal ion spanning the second to fourth residues or `IY[Phospho]`
+   * for an immonium ion. The c-1 and z+1 ions are written as `c3-H` and `z3+H`.
+   */
+  get annotation(): string {
+    let label: string;
+    switch (this.ion_type) {
+      case "immonium":
+        label = `I${this.seq.map(aa => aa.toString()).join("")}`;
+        break;
+      case "internal-a":
+      case "internal-b": {
+        const start = (this.fragment_start ?? 0) + 1;
+        label = `m${start}:${start + this.seqLength - 1}${this.ion_type === "internal-a" ? "-CO" : ""}`;
+        break;
+      }
+      case "c-1":
+        label = `c${this.fragment_number}-H`;
+        break;
+      case "z+1":
+        label = `z${this.fragment_number}+H`;
+        break;
+      default:
+        label = `${this.ion_type ?? "?"}${this.fragment_number ?? ""}`;
+    }
+
+    const losses = new Map<string, number>();
+    for (const loss of this.neutral_losses) {
+      const formula = loss.toFormula();
+      losses.set(formula, (losses.get(formula) ?? 0) + 1);
+    }
+    for (const [formula, count] of losses) {
+      label += `-${count > 1 ? count : ""}${formula}`;
+    }
+    return Math.abs(this.charge) > 1 ? `${label}^${Math.abs(this.charge)}` : label;
+  }
+}
+
+/** Mass difference between neighbouring isotope peaks, taken as that of 13C and 12C */
+const ISOTOPE_SPACING = isotope_mass["13C"] - isotope_mass["12C"];
+
+/**
+ * Represents a precursor ion: an intact peptidoform with its charge and charge carriers.
+ *
+ * The charge and ionic species default to those of the ProForma string, e.g. `/2[+2Na+]`;
+ * without ionic species, or when their charge does not match, the charge is carried by
+ * protons. The m/z can be taken for a heavier isotope peak such as M+1, or for a
+ * charge-reduced species that captured (or, for an anion, lost) electrons without
+ * dissociating, as in ETD and ECD.
+ */
+export class PrecursorIon extends Sequence {
+  declare charge: number;
+  /** Number of isotope peaks above the monoisotopic one, e.g. 1 for M+1 */
+  isotope: number;
+  /** Number of electrons captured by a cation or lost by an anion */
+  chargeReduction: number;
+
+  /**
+   * Initialize a PrecursorIon object.
+   *
+   * @param seq - The peptidoform
+   * @param charge - The charge before any charge reduction; the charge of the ProForma
+   * string is used if not given
+   * @param isotope - The isotope peak, 0 for the monoisotopic peak
+   * @param chargeReduction - The number of electrons captured or lost
+   * @throws Error if there is no charge, the charge cannot be reduced that far, or the ionic
+   * species of the ProForma string do not add up to its charge
+   */
+  constructor(seq: Sequence, charge?: number | null, isotope: number = 0, chargeReduction: number = 0) {
+    super(seq);
+    const z = charge ?? seq.charge;
+    if (!z) {
+      throw new Error("The charge of the precursor is not known");
+    }
+    if (chargeReduction < 0 || chargeReduction >= Math.abs(z)) {
+      throw new Error(`Cannot reduce a charge of ${z} by ${chargeReduction}`);
+    }
+    // Ionic species that do not carry this charge are left out, so that protons carry it
+    const adducts = this._chargeCarryingAdducts(z);
+    if (!adducts.length) {
+      this.adducts = [];
+      this.ionicSpecies = null;
+    }
+    this.charge = z;
+    this.isotope = isotope;
+    this.chargeReduction = chargeReduction;
+  }
+
+  /**
+   * Get the charge of the ion after charge reduction.
+   */
+  get observedCharge(): number {
+    return this.charge - Math.sign(this.charge) * this.chargeReduction;
+  }
+
+  /**
+   * Get the ions carrying the charge: the parsed ionic species when their total charge
+   * matches, otherwise protons (or removed protons for an anion).
+   */
+  get chargeCarriers(): Adduct[] {
+    const adductCharge = this.adducts.reduce((sum, adduct) => sum + adduct.totalCharge, 0);
+    return this.adducts.length && adductCharge === this.charge
+      ? this.adducts
+      : [new Adduct(this.charge, "H", 1)];
+  }
+
+  /**
+   * Calculate the m/z of the precursor ion. The masses of the charge carriers account for
+   * their missing or extra electrons, and captured electrons add their mass.
+   *
+   * @param charge - The charge before any charge reduction; the charge of the ion if not given
+   * @param massType - Whether to use monoisotopic or average masses
+   * @returns The mass-to-charge ratio
+   * @throws Error if the mass of a residue or modification is not known
+   */
+  getMz(charge?: number | null, massType: MassType = "monoisotopic"): number {
+    if (charge && charge !== this.charge) {
+      return new PrecursorIon(this, charge, this.isotope, this.chargeReduction).getMz(null, massType);
+    }
+    const mass = this.getMass(massType)
+      + this.isotope * ISOTOPE_SPACING
+      + this.chargeCarriers.reduce((sum, adduct) => sum + adduct.mass, 0)
+      + Math.sign(this.charge) * this.chargeReduction * electron;
+    return mass / Math.abs(this.observedCharge);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+/**
+ * Theoretical isotope distributions of elemental compositions.
+ */
+
+import { Composition } from './composition';
+import { calculateMz } from './mass';
+import type { Adduct } from './proforma';
+import { element_mass, isotope_abundance, isotope_mass } from './resources';
+
+/**
+ * Isotopologues are dropped while the distribution is built when they are less abundant
+ * than this fraction of the most abundant one.
+ */
+const PRUNING_THRESHOLD = 1e-10;
+
+/**
+ * One peak of an isotope distribution, holding all isotopologues of the same nominal mass.
+ */
+export interface IsotopePeak {
+  /** Nominal mass difference to the monoisotopic peak, e.g. 1 for M+1 */
+  offset: number;
+  /** Abundance-weighted mean neutral mass of the isotopologues in the peak */
+  mass: number;
+  /** Mass-to-charge ratio, or null when no charge is given */
+  mz: number | null;
+  /** Abundance relative to the most abundant peak */
+  abundance: number;
+}
+
+export interface IsotopeDistributionOptions {
+  /** Charge state for the m/z values, negative for anions */
+  charge?: number | null;
+  /** Charge carriers; protons are assumed when none are given */
+  adducts?: Adduct[];
+  /** Leave out peaks less abundant than this fraction of the most abundant peak (default 0.001) */
+  minAbundance?: number;
+  /** Keep only this many of the most abundant peaks */
+  maxPeaks?: number;
+}
+
+/** Probability and probability-weighted mass of each nominal mass offset */
+type Envelope = Map<number, [number, number]>;
+
+/**
+ * Calculate the isotope distribution of a composition from the natural abundances of the
+ * isotopes of its elements. Atoms of a specific isotope, e.g. from an isotope label, are
+ * taken to be fully enriched.
+ *
+ * @param composition - The composition of the neutral molecule
+ * @param options - Charge and pruning of the distribution
+ * @returns The peaks in order of mass, the most abundant one with an abundance of 1
+ * @throws Error if the composition has negative counts or atoms of unknown mass
+ */
+export function isotopeDistribution(
+  composition: Composition,
+  options: IsotopeDistributionOptions = {}
+): IsotopePeak[] {
+  const { charge = null, adducts = [], minAbundance = 0.001, maxPeaks } = options;
+
+  let envelope: Envelope = new Map([[0, [1, 0]]]);
+  for (const [atom, count] of composition.entries()) {
+    if (count < 0) {
+      throw new Error(`Cannot calculate the isotope distribution of '${composition.toFormula()}' with negative counts`);
+    }
+    envelope = convolve(envelope, power(atomEnvelope(atom), count));
+  }
+
+  const mostAbundant = Math.max(...[...envelope.values()].map(([probability]) => probability));
+  let peaks = [...envelope.entries()]
+    .map(([offset, [probability, weightedMass]]) => {
+      const mass = weightedMass / probability;
+      return {
+        offset,
+        mass,
+        mz: charge ? calculateMz(mass, charge, adducts) : null,
+        abundance: probability / mostAbundant
+      };
+    })
+    .filter(peak => peak.abundance >= minAbundance);
+
+  if (maxPeaks !== undefined) {
+    peaks = peaks.sort((a, b) => b.abundance - a.abundance).slice(0, maxPeaks);
+  }
+  return peaks.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Get the isotope pattern of a single atom, with offsets relative to its monoisotopic mass.
+ */
+function atomEnvelope(atom: string): Envelope {
+  if (atom in isotope_abundance) {
+    const envelope: Envelope = new Map();
+    for (const [isotope, abundance] of Object.entries(isotope_abundance[atom])) {
+      const mass = isotope_mass[isotope];
+      envelope.set(Math.round(mass - element_mass[atom]), [abundance, abundance * mass]);
+    }
+    return envelope;
+  }
+  const mass = isotope_mass[atom] ?? element_mass[atom];
+  if (mass === undefined) {
+    throw new Error(`Mass of ${atom} is not available`);
+  }
+  return new Map([[0, [1, mass]]]);
+}
+
+/**
+ * Combine the distributions of two independent parts of a molecule.
+ */
+function convolve(a: Envelope, b: Envelope): Envelope {
+  const result: Envelope = new Map();
+  for (const [offsetA, [probabilityA, weightedMassA]] of a) {
+    for (const [offsetB, [probabilityB, weightedMassB]] of b) {
+      const offset = offsetA + offsetB;
+      const [probability, weightedMass] = result.get(offset) ?? [0, 0];
+      result.set(offset, [
+        probability + probabilityA * probabilityB,
+        weightedMass + probabilityA * weightedMassB + probabilityB * weightedMassA
+      ]);
+    }
+  }
+
+  const mostAbundant = Math.max(...[...result.values()].map(([probability]) => probability));
+  for (const [offset, [probability]] of result) {
+    if (probability < mostAbundant * PRUNING_THRESHOLD) {
+      result.delete(offset);
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the distribution of `count` copies of an atom by repeated squaring.
+ */
+function power(envelope: Envelope, count: number): Envelope {
+  let result: Envelope = new Map([[0, [1, 0]]]);
+  let square = envelope;
+  while (count > 0) {
+    if (count % 2 === 1) {
+      result = convolve(result, square);
+    }
+    count = Math.floor(count / 2);
+    if (count > 0) {
+      square = convolve(square, square);
+    }
+  }
+  return result;
+}
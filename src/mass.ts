@@ -1,20 +1,31 @@
-import {H, O} from "./resources";
+import {AA_composition, element_average_mass, H, O, proton} from "./resources";
+import {Adduct} from "./proforma";
+import {Composition} from "./composition";
+
+/**
+ * Whether masses are calculated from the most abundant isotope of each element or from the
+ * standard atomic weights.
+ */
+export type MassType = "monoisotopic" | "average";
 
 export function calculateMass(
   seq: any[],
   massDict?: Record<string, number>,
   NTerminus: number = 0,
   OTerminus: number = 0,
-  withWater: boolean = true
+  withWater: boolean = true,
+  isotopeLabels: string[] = [],
+  massType: MassType = "monoisotopic"
 ): number {
   let mass = 0;
 
   if (withWater) {
-    mass += H * 2 + O;
+    mass += massType === "average" ? element_average_mass["H"] * 2 + element_average_mass["O"] : H * 2 + O;
   }
 
   for (const i of seq) {
-    if (!i.mass) {
+    const blockMass = blockMassOf(i, massType);
+    if (!blockMass) {
       if (massDict) {
         if (i.value in massDict) {
           mass += massDict[i.value];
@@ -27,12 +38,13 @@ export function calculateMass(
         );
       }
     } else {
-      mass += i.mass;
+      mass += blockMass;
     }
 
     if (i.mods) {
       for (const m of i.mods) {
-        if (m.mass !== 0 && !m.mass) {
+        const modMass = blockMassOf(m, massType);
+        if (modMass !== 0 && !modMass) {
           if (massDict) {
             if (m.value in massDict) {
               mass += massDict[m.value];
@@ -45,11 +57,82 @@ export function calculateMass(
             );
           }
         } else {
-          mass += m.mass;
+          mass += modMass;
         }
       }
     }
   }
 
+  if (isotopeLabels.length) {
+    mass += isotopeLabelShift(seq, isotopeLabels, withWater, massType);
+  }
+
   return mass + NTerminus + OTerminus;
-}
\ No newline at end of file
+}
+
+function blockMassOf(block: any, massType: MassType): number | null {
+  return typeof block.getMass === "function" ? block.getMass(massType) : block.mass;
+}
+
+export { parseIsotopeLabel } from "./composition";
+
+/**
+ * Calculate the mass difference caused by isotope labels, which replace every atom of the
+ * labelled element in the residues, their modifications (and water if included) by the
+ * heavy isotope. Modifications without a known composition, such as mass shifts, are left
+ * unlabelled.
+ *
+ * @param seq - The residues
+ * @param isotopeLabels - Labels such as `13C`, `15N` or `D`
+ * @param withWater - Whether the water of the terminal groups is labelled as well
+ * @param massType - Whether the unlabelled mass is monoisotopic or average
+ * @param mods - The modifications to label; the modifications of the residues if not given
+ * @returns The mass to add to the unlabelled mass
+ */
+export function isotopeLabelShift(
+  seq: any[],
+  isotopeLabels: string[],
+  withWater: boolean = true,
+  massType: MassType = "monoisotopic",
+  mods?: any[]
+): number {
+  let composition = withWater ? new Composition({"H": 2, "O": 1}) : new Composition();
+  for (const block of seq) {
+    const residue = AA_composition[block.value];
+    if (!residue) {
+      throw new Error(`Elemental composition of ${block.value} is not available for isotope labeling`);
+    }
+    composition = composition.add(new Composition(residue));
+  }
+  for (const mod of mods ?? seq.flatMap(block => block.mods ?? [])) {
+    if (mod.composition) {
+      composition = composition.add(mod.composition);
+    }
+  }
+
+  let labelled = composition;
+  for (const label of isotopeLabels) {
+    labelled = labelled.withIsotopeLabel(label);
+  }
+  return massType === "average"
+    ? labelled.averageMass - composition.averageMass
+    : labelled.monoisotopicMass - composition.monoisotopicMass;
+}
+
+/**
+ * Calculate the m/z of a molecule from its neutral mass.
+ *
+ * @param mass - The neutral monoisotopic mass
+ * @param charge - The charge state, negative for anions
+ * @param adducts - The charge carriers; protons are assumed when none are given
+ * @returns The mass-to-charge ratio
+ */
+export function calculateMz(mass: number, charge: number, adducts: Adduct[] = []): number {
+  if (charge === 0) {
+    throw new Error("Cannot calculate m/z for a charge of 0");
+  }
+  if (adducts.length) {
+    return (mass + adducts.reduce((sum, adduct) => sum + adduct.mass, 0)) / Math.abs(charge);
+  }
+  return (mass + charge * proton) / Math.abs(charge);
+}
@@ -2,15 +2,23 @@
  * This module provides functionality for fragmenting sequences into ion fragments for mass spectrometry analysis.
  */
 
+import { Composition } from './composition';
 import { Ion } from './ion';
+import { MassType } from './mass';
 import { Sequence } from './sequence';
-import { Modification } from './modification';
+import { Modification, NeutralLoss } from './modification';
 import {AminoAcid} from "./amino_acid";
+import { c_terminal_ion_types, internal_ion_types, n_terminal_ion_types } from './resources';
 
 export const ax = "ax";
 export const by = "by";
 export const cz = "cz";
 
+/** Loss of water from fragments holding serine, threonine, glutamate or aspartate */
+export const waterLoss: NeutralLoss = { composition: new Composition({ H: 2, O: 1 }), residues: ["S", "T", "E", "D"] };
+/** Loss of ammonia from fragments holding arginine, lysine, glutamine or asparagine */
+export const ammoniaLoss: NeutralLoss = { composition: new Composition({ N: 1, H: 3 }), residues: ["R", "K", "Q", "N"] };
+
 /**
  * Calculate non-labile modifications and yield associated transitions.
  *
@@ -31,7 +39,7 @@ export function* fragmentNonLabile(
       i
     );
     const right = new Ion(
-      sequence.getItem(i) as Sequence,
+      sequence.getItem([i, sequence.seqLength]) as Sequence,
       1,
       fragmentType[1],
       sequence.seqLength - i
@@ -40,6 +48,234 @@ export function* fragmentNonLabile(
   }
 }
 
+/**
+ * A row of a fragment ion table.
+ */
+export interface FragmentIonRow {
+  /** Ion type, e.g. `b` or `z+1` */
+  ionType: string;
+  /** Number of residues in the fragment */
+  index: number;
+  /** Index of the first residue of an internal or immonium ion, otherwise null */
+  start: number | null;
+  charge: number;
+  mz: number;
+  /** Peak annotation, e.g. `y3-H2O^2` */
+  annotation: string;
+}
+
+/**
+ * Generate the terminal fragment ions of a sequence for each ion type and charge state.
+ *
+ * N-terminal ions (a, b, c, c-1) carry the N-terminal modifications and C-terminal ions
+ * (x, y, z, z+1) the C-terminal ones. Global fixed modifications are placed on their
+ * residues first; labile and unknown position modifications are not part of any fragment.
+ * A modification on a range belongs to the fragment holding the start of the range.
+ *
+ * @param sequence - The sequence to be fragmented
+ * @param ionTypes - The ion types to generate
+ * @param maxCharge - The highest charge state to generate for each fragment
+ */
+export function* fragmentTerminal(
+  sequence: Sequence,
+  ionTypes: string[] = ["b", "y"],
+  maxCharge: number = 1
+): Generator<Ion> {
+  for (const ionType of ionTypes) {
+    if (!n_terminal_ion_types.includes(ionType) && !c_terminal_ion_types.includes(ionType)) {
+      throw new Error(`Unknown ion type '${ionType}'`);
+    }
+  }
+  const peptidoform = sequence.globalMods.some(mod => mod.globalModType === "fixed")
+    ? sequence.applyGlobalModifications()
+    : sequence;
+  const length = peptidoform.seqLength;
+
+  for (const ionType of ionTypes) {
+    const nTerminal = n_terminal_ion_types.includes(ionType);
+    for (let i = 1; i < length; i++) {
+      const fragment = peptidoform.getItem(nTerminal ? [0, i] : [length - i, length]) as Sequence;
+      if (nTerminal) {
+        fragment.nTermMods = [...peptidoform.nTermMods];
+      } else {
+        fragment.cTermMods = [...peptidoform.cTermMods];
+      }
+      for (let charge = 1; charge <= maxCharge; charge++) {
+        yield new Ion(fragment, charge, ionType, i);
+      }
+    }
+  }
+}
+
+/**
+ * Generate the internal fragment ions of a sequence, which result from two backbone
+ * cleavages and hold neither terminus.
+ *
+ * `internal-b` ions have the b-type ends at both cleavages and `internal-a` ions lack a
+ * further CO. Global fixed modifications are placed on their residues first, and a
+ * modification on a range belongs to the fragment holding the start of the range.
+ *
+ * @param sequence - The sequence to be fragmented
+ * @param ionTypes - The internal ion types to generate
+ * @param maxCharge - The highest charge state to generate for each fragment
+ * @param minLength - The fewest residues in a fragment
+ * @param maxLength - The most residues in a fragment
+ */
+export function* fragmentInternal(
+  sequence: Sequence,
+  ionTypes: string[] = ["internal-b"],
+  maxCharge: number = 1,
+  minLength: number = 2,
+  maxLength: number = Infinity
+): Generator<Ion> {
+  for (const ionType of ionTypes) {
+    if (!internal_ion_types.includes(ionType)) {
+      throw new Error(`Unknown internal ion type '${ionType}'`);
+    }
+  }
+  const peptidoform = sequence.globalMods.some(mod => mod.globalModType === "fixed")
+    ? sequence.applyGlobalModifications()
+    : sequence;
+  const length = peptidoform.seqLength;
+
+  for (const ionType of ionTypes) {
+    for (let start = 1; start < length - 1; start++) {
+      for (let end = start + minLength; end < length && end - start <= maxLength; end++) {
+        const fragment = peptidoform.getItem([start, end]) as Sequence;
+        for (let charge = 1; charge <= maxCharge; charge++) {
+          yield new Ion(fragment, charge, ionType, end - start, start);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Generate the immonium ions of the residues of a sequence, once for each distinct residue
+ * with its modifications, e.g. 216.04 for phosphotyrosine.
+ *
+ * @param sequence - The sequence to take the residues from
+ */
+export function* fragmentImmonium(sequence: Sequence): Generator<Ion> {
+  const peptidoform = sequence.globalMods.some(mod => mod.globalModType === "fixed")
+    ? sequence.applyGlobalModifications()
+    : sequence;
+  const seen = new Set<string>();
+  for (let i = 0; i < peptidoform.seqLength; i++) {
+    const residue = peptidoform.getItem([i, i + 1]) as Sequence;
+    const key = residue.toProforma();
+    if (!seen.has(key)) {
+      seen.add(key);
+      yield new Ion(residue, 1, "immonium", 1, i);
+    }
+  }
+}
+
+/**
+ * Yield each fragment ion followed by its neutral loss variants.
+ *
+ * A loss is only applied to ions that can undergo it: one of the given losses needs a
+ * fragment holding one of its residues, and a loss declared by a modification needs the
+ * fragment to hold the modification on one of the residues of the loss. Each residue or
+ * modification supplies one loss, so a fragment with two phosphoserines can lose H3PO4 twice.
+ *
+ * @param ions - The fragment ions, e.g. from `fragmentTerminal`
+ * @param losses - Losses that depend only on the residues, e.g. `waterLoss` and `ammoniaLoss`
+ * @param maxLosses - The most losses combined in one ion
+ */
+export function* fragmentNeutralLosses(
+  ions: Iterable<Ion>,
+  losses: NeutralLoss[] = [waterLoss, ammoniaLoss],
+  maxLosses: number = 1
+): Generator<Ion> {
+  for (const ion of ions) {
+    yield ion;
+
+    // Number of times each composition can be lost, keyed by formula
+    const available = new Map<string, [Composition, number]>();
+    const addLoss = (composition: Composition) => {
+      const formula = composition.toFormula();
+      const [, count] = available.get(formula) ?? [composition, 0];
+      available.set(formula, [composition, count + 1]);
+    };
+
+    for (const loss of losses) {
+      for (const aa of ion.seq) {
+        if (loss.residues.length === 0 || loss.residues.includes(aa.value)) {
+          addLoss(loss.composition);
+        }
+      }
+    }
+    for (const mod of [...ion.nTermMods, ...ion.cTermMods]) {
+      for (const loss of mod.neutralLosses) {
+        if (loss.residues.length === 0) {
+          addLoss(loss.composition);
+        }
+      }
+    }
+    for (const aa of ion.seq) {
+      for (const mod of (aa as AminoAcid).mods ?? []) {
+        if (mod.isCrosslinkRef || mod.isAmbiguityRef || mod.modValue.isBranchRef) {
+          continue;
+        }
+        for (const loss of mod.neutralLosses) {
+          if (loss.residues.length === 0 || loss.residues.includes(aa.value)) {
+            addLoss(loss.composition);
+          }
+        }
+      }
+    }
+
+    for (const combination of lossCombinations([...available.values()], maxLosses)) {
+      const variant = new Ion(ion, ion.charge, ion.ion_type, ion.fragment_number, ion.fragment_start);
+      variant.neutral_losses = [...ion.neutral_losses, ...combination];
+      yield variant;
+    }
+  }
+}
+
+/**
+ * Enumerate the combinations of one to `maxLosses` losses, using each composition at most
+ * as many times as it is available.
+ */
+function lossCombinations(available: [Composition, number][], maxLosses: number): Composition[][] {
+  const combinations: Composition[][] = [];
+  const extend = (start: number, combination: Composition[]) => {
+    for (let i = start; i < available.length; i++) {
+      const [composition, count] = available[i];
+      const used = combination.filter(loss => loss === composition).length;
+      if (used < count && combination.length < maxLosses) {
+        const next = [...combination, composition];
+        combinations.push(next);
+        extend(i, next);
+      }
+    }
+  };
+  extend(0, []);
+  return combinations;
+}
+
+/**
+ * Tabulate the type, number, charge and m/z of fragment ions.
+ *
+ * @param ions - The fragment ions, e.g. from `fragmentTerminal`
+ * @param massType - Whether to use monoisotopic or average masses
+ */
+export function fragmentTable(ions: Iterable<Ion>, massType: MassType = "monoisotopic"): FragmentIonRow[] {
+  const rows: FragmentIonRow[] = [];
+  for (const ion of ions) {
+    rows.push({
+      ionType: ion.ion_type ?? "",
+      index: ion.fragment_number ?? 0,
+      start: ion.fragment_start,
+      charge: ion.charge,
+      mz: ion.mzCalculate(undefined, false, 0, massType),
+      annotation: ion.annotation
+    });
+  }
+  return rows;
+}
+
 /**
  * Calculate all labile modification variants for the sequence and its associated labile modifications.
  *
@@ -48,36 +284,168 @@ export function* fragmentNonLabile(
  */
 export function fragmentLabile(sequence: Sequence): Ion {
   let fragmentNumber = 0;
-  for (const p in sequence.mods.keys()) {
-    const modList = sequence.mods.get(Number(p));
-    if (modList) {
-      for (const i of modList) {
-        if (i.labile) {
-          fragmentNumber += i.labileNumber;
-        }
+  const modLists = [sequence.labileMods, ...sequence.seq.map(aa => aa.mods)];
+  for (const modList of modLists) {
+    for (const i of modList) {
+      if (i.labile) {
+        fragmentNumber += i.labileNumber;
       }
     }
-
   }
   return new Ion(sequence, 1, "Y", fragmentNumber);
 }
 
 /**
- * A factory class for generating ion fragments from sequences.
+ * Options of a FragmentFactory.
+ */
+export interface FragmentFactoryOptions {
+  /** The highest fragment charge; the precursor charge (or 1) if not given */
+  maxCharge?: number;
+  /** The most neutral losses combined on one fragment */
+  maxLosses?: number;
+  /** Internal ion types to generate, e.g. `internal-b` */
+  internalIonTypes?: string[];
+  /** Whether to generate immonium ions */
+  immonium?: boolean;
+}
+
+/**
+ * A fragmentation engine generating the annotated ions of a peptidoform for an activation
+ * type or a list of ion types.
+ *
+ * @example
+ * const factory = new FragmentFactory("HCD", [], [waterLoss], { maxCharge: 2 });
+ * factory.fragment(Sequence.fromProforma("PEPS[Phospho]TIDE")).map(ion => ion.annotation);
  */
 export class FragmentFactory {
+  /** Ion types produced by each activation type */
+  static readonly ACTIVATION_PRESETS: Record<string, string[]> = {
+    CID: ["b", "y"],
+    HCD: ["b", "y"],
+    // Electron-based activation gives c and z-dot (z+1) ions
+    ETD: ["c", "z+1"],
+    ECD: ["c", "z+1"],
+    EThcD: ["b", "y", "c", "z+1"],
+    UVPD: ["a", "b", "c", "x", "y", "z"],
+  };
+
   fragment_type: string;
+  /** Terminal ion types generated, e.g. `["b", "y"]` */
+  ion_types: string[];
   ignore: Modification[];
+  neutral_losses: NeutralLoss[];
+  max_charge: number | null;
+  max_losses: number;
+  internal_ion_types: string[];
+  immonium: boolean;
 
   /**
    * Initialize a FragmentFactory object.
    *
-   * @param fragmentType - The type of fragment transition (e.g., "by", "ax")
-   * @param ignore - A list of modifications to ignore
+   * @param fragmentType - An activation type such as "HCD" or "ETD" (see `ACTIVATION_PRESETS`),
+   * or the letters of the ion types (e.g., "by", "ax")
+   * @param ignore - A list of modifications to leave out of the fragments
+   * @param neutralLosses - Losses that depend only on the residues, e.g. `waterLoss`
+   * @param options - Charge, neutral loss, internal and immonium ion settings
+   * @throws Error if an ion type is not known
    */
-  constructor(fragmentType: string, ignore: Modification[] = []) {
+  constructor(
+    fragmentType: string,
+    ignore: Modification[] = [],
+    neutralLosses: NeutralLoss[] = [],
+    options: FragmentFactoryOptions = {}
+  ) {
     this.fragment_type = fragmentType;
+    this.ion_types = FragmentFactory.ionTypesOf(fragmentType);
     this.ignore = ignore || [];
+    this.neutral_losses = neutralLosses;
+    this.max_charge = options.maxCharge ?? null;
+    this.max_losses = options.maxLosses ?? 1;
+    this.internal_ion_types = options.internalIonTypes ?? [];
+    this.immonium = options.immonium ?? false;
+    for (const ionType of this.internal_ion_types) {
+      if (!internal_ion_types.includes(ionType)) {
+        throw new Error(`Unknown internal ion type '${ionType}'`);
+      }
+    }
+  }
+
+  private static ionTypesOf(fragmentType: string): string[] {
+    const preset = Object.keys(FragmentFactory.ACTIVATION_PRESETS)
+      .find(name => name.toUpperCase() === fragmentType.toUpperCase());
+    if (preset) {
+      return [...FragmentFactory.ACTIVATION_PRESETS[preset]];
+    }
+    const ionTypes = [...fragmentType];
+    for (const ionType of ionTypes) {
+      if (!n_terminal_ion_types.includes(ionType) && !c_terminal_ion_types.includes(ionType)) {
+        throw new Error(`Unknown activation or ion type '${fragmentType}'`);
+      }
+    }
+    return ionTypes;
+  }
+
+  /**
+   * Fragment a peptidoform into its terminal ions, with internal and immonium ions when
+   * configured, followed by their neutral loss variants. Neutral losses declared by
+   * modifications are always considered; ignored modifications contribute neither their
+   * mass nor their losses.
+   *
+   * @param sequence - The peptidoform to fragment
+   * @returns The fragment ions, each with its `annotation`
+   * @throws Error if the mass of a residue or modification is not known
+   */
+  fragment(sequence: Sequence): Ion[] {
+    const peptidoform = this.withoutIgnored(sequence);
+    const maxCharge = this.max_charge ?? Math.max(1, Math.abs(sequence.charge ?? 1));
+
+    const ions: Ion[] = [...fragmentTerminal(peptidoform, this.ion_types, maxCharge)];
+    if (this.internal_ion_types.length) {
+      ions.push(...fragmentInternal(peptidoform, this.internal_ion_types, maxCharge));
+    }
+    if (this.immonium) {
+      ions.push(...fragmentImmonium(peptidoform));
+    }
+    return [...fragmentNeutralLosses(ions, this.neutral_losses, this.max_losses)];
+  }
+
+  /**
+   * Copy a sequence without the ignored modifications, matched by value.
+   */
+  private withoutIgnored(sequence: Sequence): Sequence {
+    if (!this.ignore.length) {
+      return sequence;
+    }
+    const ignored = new Set(this.ignore.map(mod => mod.value));
+    const keep = (mod: Modification) => !ignored.has(mod.value);
+    const copy = new Sequence(sequence);
+
+    copy.nTermMods = copy.nTermMods.filter(keep);
+    copy.cTermMods = copy.cTermMods.filter(keep);
+    copy.labileMods = copy.labileMods.filter(keep);
+    copy.unknownPositionMods = copy.unknownPositionMods.filter(keep);
+    copy.globalMods = copy.globalMods.filter(keep);
+    for (const aa of copy.seq) {
+      for (const mod of aa.mods.filter(mod => !keep(mod))) {
+        aa.removeModification(mod);
+      }
+    }
+    for (const [position, mods] of copy.mods) {
+      if (position >= 0) {
+        copy.mods.set(position, mods.filter(keep));
+      }
+    }
+    return copy;
+  }
+
+  /**
+   * Set the losses that depend only on the residues. Losses declared by modifications are
+   * always considered.
+   *
+   * @param neutralLosses - The neutral losses, e.g. `waterLoss` and `ammoniaLoss`
+   */
+  setNeutralLosses(neutralLosses: NeutralLoss[]): void {
+    this.neutral_losses = neutralLosses;
   }
 
   /**
@@ -88,4 +456,4 @@ export class FragmentFactory {
   setIgnore(ignore: Modification[]): void {
     this.ignore = ignore;
   }
-}
\ No newline at end of file
+}
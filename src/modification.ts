@@ -1,5 +1,10 @@
-import {monosaccharides} from "./resources";
 import {BaseBlock} from "./base_block";
+import {Composition} from "./composition";
+import {parseFormula} from "./formula";
+import {GlycanComposition} from "./glycan";
+import {MassType} from "./mass";
+import {ModificationDefinition, ModificationResolver} from "./resolver";
+import {UnimodResolver} from "./unimod";
 
 class PipeValue {
   static SYNONYM = "synonym";
@@ -110,10 +115,12 @@ export class ModificationValue {
   private _source: string | null = null;
   private _mass: number | null;
   private _pipeValues: PipeValue[] = [];
+  private _composition: Composition | null = null;
 
   constructor(value: string, mass: number | null = null) {
     this._mass = mass;
     this._parseValue(value);
+    this._resolveComposition();
   }
 
   static validateGlycan(glycan: string): boolean {
@@ -185,11 +192,12 @@ export class ModificationValue {
         this._primaryValue = parts[1];
         let isValidGlycan = false;
         let isValidFormula = false;
+        const unreferencedValue = this._primaryValue.split("#", 1)[0];
 
         if (this._source.toUpperCase() === "FORMULA") {
-          isValidFormula = ModificationValue._validateFormula(this._primaryValue);
+          isValidFormula = ModificationValue._validateFormula(unreferencedValue);
         } else if (this._source.toUpperCase() === "GLYCAN") {
-          isValidGlycan = ModificationValue._validateGlycan(this._primaryValue);
+          isValidGlycan = ModificationValue._validateGlycan(unreferencedValue);
         }
 
         if (this._primaryValue.includes("#")) {
@@ -251,6 +259,11 @@ export class ModificationValue {
           } else if (this._source.toUpperCase() === "FORMULA") {
             pipeVal = new PipeValue(parts[1], PipeValue.FORMULA, value);
             pipeVal.isValidFormula = isValidFormula;
+          } else if (MASS_SHIFT_VALUE.test(parts[1])) {
+            // A mass shift given in the terms of a vocabulary, e.g. U:+15.9949
+            pipeVal = new PipeValue(parts[1], PipeValue.MASS, value);
+            pipeVal.mass = parseFloat(parts[1]);
+            this._mass = pipeVal.mass;
           } else {
             pipeVal = new PipeValue(parts[1], PipeValue.SYNONYM, value);
           }
@@ -362,98 +375,50 @@ export class ModificationValue {
       }
     }
   }
-  private static _validateGlycan(glycan: string): boolean {
-    const glycanClean = glycan.replace(/\s/g, "");
-    const sortedMonos = [...monosaccharides].sort((a, b) => b.length - a.length);
-
-    const escapedMonos = sortedMonos.map(m => m.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&'));
-    const monoPatternString = "(" + escapedMonos.join("|") + ")(\\((\\d+)\\))?";
-
-    const monoPattern = new RegExp(monoPatternString);
-
-    let i = 0;
-    while (i < glycanClean.length) {
-      const match = glycanClean.substring(i).match(monoPattern);
-      if (!match) {
-        return false;
-      }
-      i += match[0].length;
+  /**
+   * Take the composition and mass of the modification from its first valid chemical formula
+   * or glycan composition, unless a mass was given explicitly. Formulas that `parseFormula`
+   * cannot read, e.g. with an unknown element, are not valid and are left unresolved.
+   */
+  private _resolveComposition(): void {
+    const pipeVal = this._pipeValues.find(pv =>
+      pv.isValidFormula || (pv.isValidGlycan && pv.source?.toUpperCase() === "GLYCAN")
+    );
+    if (!pipeVal) {
+      return;
+    }
+    try {
+      this._composition = pipeVal.isValidFormula
+        ? parseFormula(pipeVal.value)
+        : GlycanComposition.parse(pipeVal.value).composition;
+    } catch (e) {
+      return;
+    }
+    if (this._mass === null || this._mass === 0) {
+      this._mass = this._composition.monoisotopicMass;
     }
-
-    return i === glycanClean.length;
   }
 
-  private static _validateFormula(formula: string): boolean {
-    if (!formula.trim()) {
+  private static _validateGlycan(glycan: string): boolean {
+    try {
+      GlycanComposition.parse(glycan);
+      return true;
+    } catch (e) {
       return false;
     }
+  }
 
-    // Check for balanced brackets
-    if ((formula.match(/\[/g) || []).length !== (formula.match(/\]/g) || []).length) {
+  private static _validateFormula(formula: string): boolean {
+    try {
+      parseFormula(formula);
+      return true;
+    } catch (e) {
       return false;
     }
-
-    const formulaNoSpaces = formula.replace(/\s/g, "");
-
-    let i = 0;
-    while (i < formulaNoSpaces.length) {
-      if (formulaNoSpaces[i] === "[") {
-        const endBracket = formulaNoSpaces.indexOf("]", i);
-        if (endBracket === -1) {
-          return false;
-        }
-
-        const isotopePart = formulaNoSpaces.substring(i + 1, endBracket);
-        if (!isotopePart.match(/\d+[A-Z][a-z]?(-?\d+)?/)) {
-          return false;
-        }
-        i = endBracket + 1;
-
-        if (i < formulaNoSpaces.length &&
-          (formulaNoSpaces[i] === '-' || /\d/.test(formulaNoSpaces[i]))) {
-          let start = i;
-          if (formulaNoSpaces[i] === '-') {
-            i++;
-          }
-          while (i < formulaNoSpaces.length && /\d/.test(formulaNoSpaces[i])) {
-            i++;
-          }
-          if (parseInt(formulaNoSpaces.substring(start, i)) === 0) {
-            return false;
-          }
-        }
-      }
-      else if (/[A-Z]/.test(formulaNoSpaces[i])) {
-        if (i + 1 < formulaNoSpaces.length && /[a-z]/.test(formulaNoSpaces[i + 1])) {
-          i += 2;
-        } else {
-          i++;
-        }
-
-        if (i < formulaNoSpaces.length &&
-          (formulaNoSpaces[i] === '-' || /\d/.test(formulaNoSpaces[i]))) {
-          let start = i;
-          if (formulaNoSpaces[i] === '-') {
-            i++;
-          }
-          while (i < formulaNoSpaces.length && /\d/.test(formulaNoSpaces[i])) {
-            i++;
-          }
-          if (parseInt(formulaNoSpaces.substring(start, i)) === 0) {
-            return false;
-          }
-        }
-      }
-      else {
-        // Unexpected character
-        return false;
-      }
-    }
-
-    return true;
   }
 
 
+
   private _processPipeComponent(component: string): void {
     if (component === "#BRANCH") {
       const pipeVal: PipeValue = new PipeValue(component, PipeValue.BRANCH, component);
@@ -678,6 +643,14 @@ export class ModificationValue {
     return this._mass;
   }
 
+  /**
+   * Elemental composition from a chemical formula or glycan composition, or null when the
+   * value has neither.
+   */
+  get composition(): Composition | null {
+    return this._composition;
+  }
+
   get pipeValues(): PipeValue[] {
     return this._pipeValues;
   }
@@ -694,7 +667,7 @@ export class ModificationValue {
   get observedMass(): number | null {
     return this._pipeValues
       .filter((pv) => pv.type === PipeValue.OBSERVED_MASS)
-      .map((pv) => pv.observedMass)[0] || null;
+      .map((pv) => pv.observedMass)[0] ?? null;
   }
   get ambiguityGroup(): string | null {
     return this._pipeValues
@@ -728,12 +701,144 @@ export class ModificationValue {
   }
 }
 
+/**
+ * Options for writing ProForma strings.
+ */
+export interface ProFormaFormatOptions {
+  /**
+   * Emit a deterministic normalized form suitable as a lookup key: source prefixes are
+   * normalized (e.g. `Unimod:Oxidation` becomes `U:Oxidation`, `Unimod:35` becomes
+   * `UNIMOD:35`), mass shifts use a fixed precision, localization scores drop trailing
+   * zeros, formulas are written in Hill order, glycan compositions list their
+   * monosaccharides in alphabetical order with counts, and the modifications of each
+   * residue, terminus and global, labile or unknown position group are sorted.
+   */
+  canonical?: boolean;
+  /** Number of decimals for mass shifts in canonical mode (default 4) */
+  massPrecision?: number;
+}
+
+const MASS_SHIFT_VALUE = /^[+-]\d+(\.\d+)?$/;
+
+// Short name prefix and accession prefix of each controlled vocabulary, keyed by any accepted spelling
+const VOCABULARY_PREFIXES: Record<string, [string, string]> = {
+  "U": ["U", "UNIMOD"],
+  "UNIMOD": ["U", "UNIMOD"],
+  "M": ["M", "MOD"],
+  "MOD": ["M", "MOD"],
+  "PSI-MOD": ["M", "MOD"],
+  "R": ["R", "RESID"],
+  "RESID": ["R", "RESID"],
+  "X": ["X", "XLMOD"],
+  "XLMOD": ["X", "XLMOD"],
+  "XL-MOD": ["X", "XLMOD"],
+  "G": ["G", "GNO"],
+  "GNO": ["G", "GNO"]
+};
+
+const OTHER_PREFIXES: Record<string, string> = {
+  "OBS": "Obs",
+  "FORMULA": "Formula",
+  "GLYCAN": "Glycan",
+  "INFO": "INFO"
+};
+
+function isAccession(value: string): boolean {
+  return /^(AA)?\d+$/.test(value) || /^G\d{5}[A-Z]{2}$/.test(value);
+}
+
+function formatMass(mass: number, options: ProFormaFormatOptions): string {
+  const magnitude = options.canonical ? Math.abs(mass).toFixed(options.massPrecision ?? 4) : `${Math.abs(mass)}`;
+  // The sign is taken after rounding, so that a mass rounding to zero is always written as +0
+  const sign = mass < 0 && parseFloat(magnitude) !== 0 ? "-" : "+";
+  return sign + magnitude;
+}
+
+/**
+ * Normalize a `source:value` pair, leaving unknown sources such as `Cation` untouched.
+ */
+function canonicalSourcedValue(source: string, value: string, options: ProFormaFormatOptions): string {
+  const key = source.toUpperCase();
+  let canonicalSource = source;
+  if (key in VOCABULARY_PREFIXES) {
+    const [namePrefix, accessionPrefix] = VOCABULARY_PREFIXES[key];
+    canonicalSource = isAccession(value) ? accessionPrefix : namePrefix;
+  } else if (key in OTHER_PREFIXES) {
+    canonicalSource = OTHER_PREFIXES[key];
+  } else {
+    return `${source}:${value}`;
+  }
+
+  if (key !== "INFO" && MASS_SHIFT_VALUE.test(value)) {
+    value = formatMass(parseFloat(value), options);
+  } else if (key === "FORMULA") {
+    value = canonicalFormula(value);
+  } else if (key === "GLYCAN") {
+    value = canonicalGlycan(value);
+  }
+  return `${canonicalSource}:${value}`;
+}
+
+/**
+ * Write a formula in Hill order, e.g. `O1` as `O`. Invalid formulas are left as written.
+ */
+function canonicalFormula(formula: string): string {
+  try {
+    return parseFormula(formula).toFormula();
+  } catch (e) {
+    return formula;
+  }
+}
+
+/**
+ * Write a glycan composition with its monosaccharides in alphabetical order and explicit
+ * counts, e.g. `HexNAcHex` as `Hex1HexNAc1`. Compositions that do not parse are left as written.
+ */
+function canonicalGlycan(glycan: string): string {
+  try {
+    return GlycanComposition.parse(glycan).entries()
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([monosaccharide, count]) => `${monosaccharide}${count}`)
+      .join("");
+  } catch (e) {
+    return glycan;
+  }
+}
+
+/**
+ * A neutral molecule that a fragment ion can lose, such as water or phosphoric acid.
+ */
+export interface NeutralLoss {
+  /** The composition lost */
+  composition: Composition;
+  /** Residues on which the loss occurs; any residue when empty */
+  residues: string[];
+}
+
 export class Modification extends BaseBlock {
   static readonly KNOWN_SOURCES: Set<string> = new Set([
     "Unimod", "U", "PSI-MOD", "M", "RESID", "R", "XL-MOD",
     "X", "XLMOD", "GNO", "G", "MOD", "Obs", "Formula", "Glycan"
   ]);
 
+  private static _resolver: ModificationResolver | null | undefined = undefined;
+
+  /**
+   * Resolver that gives named modifications their mass and composition. Defaults to the
+   * bundled snapshot of common Unimod entries; set it to resolve against a full vocabulary
+   * release, or to null to turn resolution off.
+   */
+  static get resolver(): ModificationResolver | null {
+    if (Modification._resolver === undefined) {
+      Modification._resolver = UnimodResolver.bundled();
+    }
+    return Modification._resolver;
+  }
+
+  static set resolver(resolver: ModificationResolver | null) {
+    Modification._resolver = resolver;
+  }
+
   private _source: string | null;
   private _originalValue: string;
   private _crosslinkId: string | null;
@@ -749,6 +854,14 @@ export class Modification extends BaseBlock {
   private _fullName: string | null;
   private _allFilled: boolean;
   private _modValue: ModificationValue;
+  /** Definition found by `definition`, with the resolver and value it was resolved from */
+  private _resolved?: {
+    resolver: ModificationResolver;
+    modValue: ModificationValue;
+    definition: ModificationDefinition | null;
+  };
+  private _composition: Composition | null = null;
+  private _neutralLosses: NeutralLoss[] | null = null;
   public inRange: boolean;
   public rangeStart: number | null;
   public rangeEnd: number | null;
@@ -762,7 +875,7 @@ export class Modification extends BaseBlock {
     modType: string = "static",
     labile: boolean = false,
     labilNumber: number = 0,
-    mass: number = 0.0,
+    mass: number | null = null,
     allFilled: boolean = false,
     crosslinkId?: string,
     isCrosslinkRef: boolean = false,
@@ -838,16 +951,138 @@ export class Modification extends BaseBlock {
     super.value = val;
   }
 
+  /**
+   * Monoisotopic mass shift, from the value itself, a mass given with a pipe, the definition
+   * of the named modification, or else an observed mass such as `[Obs:+15.995]`. 0 when none
+   * of them gives one.
+   */
   get mass(): number {
-    return this._modValue?.mass || super.mass || 0.0;
+    return this._modValue?.mass
+      ?? super.mass
+      ?? this._modValue?.pipeValues.find(pv => pv.mass !== null)?.mass
+      ?? this.definition?.monoisotopicMass
+      ?? this.observedMass
+      ?? 0.0;
+  }
+
+  /**
+   * Whether the mass of the modification is known, from the tag itself, the definition it
+   * resolves to or an observed mass.
+   */
+  get hasMass(): boolean {
+    return this._modValue?.mass != null
+      || super.mass !== null
+      || !!this._modValue?.pipeValues.some(pv => pv.mass !== null)
+      || this.definition?.monoisotopicMass != null
+      || this.observedMass !== null;
+  }
+
+  /**
+   * Whether the tag holds nothing but INFO tags, e.g. `[INFO:hello]`, and so carries no mass.
+   */
+  get isInfoOnly(): boolean {
+    return this._modValue.pipeValues.length > 0
+      && this._modValue.pipeValues.every(pv => pv.type === PipeValue.INFO_TAG);
+  }
+
+  /**
+   * Get the monoisotopic or average mass of the modification. Average masses come from the
+   * composition of a formula or glycan, or from the resolved definition; a mass written in the
+   * tag, e.g. `[+79.966]`, is used for both mass types.
+   *
+   * @param massType - Whether to give the monoisotopic or the average mass
+   */
+  getMass(massType: MassType = "monoisotopic"): number {
+    if (massType === "monoisotopic") {
+      return this.mass;
+    }
+    const composition = this._modValue?.composition;
+    return (composition ? composition.averageMass : this._modValue?.mass)
+      ?? super.mass
+      ?? this._modValue?.pipeValues.find(pv => pv.mass !== null)?.mass
+      ?? this.definition?.averageMass
+      ?? this.observedMass
+      ?? 0.0;
   }
 
   set mass(val: number) {
     super.mass = val;
   }
 
+  /**
+   * Elemental composition added by the modification, or null when it is not known, e.g. for
+   * a mass shift.
+   */
+  get composition(): Composition | null {
+    return this._composition ?? this._modValue?.composition ?? this.definition?.composition ?? null;
+  }
+
+  /**
+   * Get the neutral losses the modification can undergo on fragmentation, e.g. H3PO4 from
+   * phosphoserine. They are taken from the specificities of the resolved definition unless
+   * they are set.
+   */
+  get neutralLosses(): NeutralLoss[] {
+    if (this._neutralLosses) {
+      return this._neutralLosses;
+    }
+    const losses = new Map<string, NeutralLoss>();
+    for (const specificity of this.definition?.specificities ?? []) {
+      for (const composition of specificity.neutralLosses ?? []) {
+        const formula = composition.toFormula();
+        if (!losses.has(formula)) {
+          losses.set(formula, { composition, residues: [] });
+        }
+        losses.get(formula)!.residues.push(specificity.site);
+      }
+    }
+    return [...losses.values()];
+  }
+
+  set neutralLosses(losses: NeutralLoss[]) {
+    this._neutralLosses = losses;
+  }
+
+  /**
+   * Definition of the named modification from `Modification.resolver`, trying the primary
+   * value and then its synonyms. Null for mass shifts, formulas, glycans and references.
+   * It is resolved once and kept until the resolver or the value changes.
+   */
+  get definition(): ModificationDefinition | null {
+    const resolver = Modification.resolver;
+    if (!resolver || this._modValue.composition || this._modValue.mass !== null) {
+      return null;
+    }
+    if (this._resolved?.resolver !== resolver || this._resolved.modValue !== this._modValue) {
+      // Not enumerable, so that copying a sequence does not copy the resolver along with it
+      Object.defineProperty(this, "_resolved", {
+        value: { resolver, modValue: this._modValue, definition: this._resolve(resolver) },
+        writable: true,
+        configurable: true,
+        enumerable: false
+      });
+    }
+    return this._resolved!.definition;
+  }
+
+  private _resolve(resolver: ModificationResolver): ModificationDefinition | null {
+    for (const name of [this._modValue.primaryValue, ...this._modValue.synonyms]) {
+      if (name) {
+        const definition = resolver.resolve(name, this._modValue.source);
+        if (definition) {
+          return definition;
+        }
+      }
+    }
+    return null;
+  }
+
+  set composition(val: Composition | null) {
+    this._composition = val;
+  }
+
   get observedMass(): number | null {
-    return this._modValue?.observedMass || null;
+    return this._modValue?.observedMass ?? null;
   }
 
   get ambiguityGroup(): string | null {
@@ -1017,7 +1252,12 @@ export class Modification extends BaseBlock {
   }
 
 
-  toProforma(): string {
+  /**
+   * Convert the modification to the content of a ProForma tag, without the enclosing brackets.
+   *
+   * @param options - Formatting options, see ProFormaFormatOptions
+   */
+  toProforma(options: ProFormaFormatOptions = {}): string {
     const parts: string[] = [];
 
     if (this.modValue) {
@@ -1027,27 +1267,25 @@ export class Modification extends BaseBlock {
         let mod_part = "";
 
         if (pv.source) {
-          mod_part = `${pv.source}:`;
-          if (pv.mass) {
-            if (pv.mass > 0) {
-              mod_part += `+${pv.mass}`;
-              seen.add(`+${pv.mass}`);
-            } else if (pv.mass < 0) {
-              mod_part += `-${pv.mass}`;
-              seen.add(`${pv.mass}`);
-            }
+          if (pv.mass !== null && pv.mass !== undefined) {
+            const massStr = formatMass(pv.mass, options);
+            mod_part = options.canonical
+              ? canonicalSourcedValue(pv.source, massStr, options)
+              : `${pv.source}:${massStr}`;
+            seen.add(massStr);
           } else {
-            mod_part += `${pv.value}`;
+            mod_part = options.canonical
+              ? canonicalSourcedValue(pv.source, pv.value, options)
+              : `${pv.source}:${pv.value}`;
           }
         } else {
-          if (pv.mass) {
-            if (pv.mass > 0) {
-              mod_part = `+${pv.mass}`;
-            } else if (pv.mass < 0) {
-              mod_part = `${pv.mass}`;
-            }
+          if (pv.mass !== null && pv.mass !== undefined) {
+            mod_part = formatMass(pv.mass, options);
           } else if (pv.type === PipeValue.SYNONYM) {
-            mod_part = `${pv.value}`;
+            const colonPos = pv.value.indexOf(":");
+            mod_part = options.canonical && colonPos > 0
+              ? canonicalSourcedValue(pv.value.substring(0, colonPos), pv.value.substring(colonPos + 1), options)
+              : `${pv.value}`;
           } else {
             if (!pv.value.includes("#")) {
               mod_part = `${pv.value}`;
@@ -1060,8 +1298,10 @@ export class Modification extends BaseBlock {
         } else if (pv.type === PipeValue.BRANCH && pv.isBranch) {
           mod_part += `#BRANCH`;
         } else if (pv.type === PipeValue.AMBIGUITY && pv.ambiguityGroup) {
-          const score_str = pv.localizationScore !== null ?
-            `(${pv.localizationScore.toFixed(2)})` : "";
+          let score_str = "";
+          if (pv.localizationScore !== null) {
+            score_str = options.canonical ? `(${pv.localizationScore})` : `(${pv.localizationScore.toFixed(2)})`;
+          }
           mod_part += `#${pv.ambiguityGroup}${score_str}`;
         }
 
@@ -1088,8 +1328,20 @@ export class Modification extends BaseBlock {
   }
 }
 
+/**
+ * Where a global fixed modification applies, parsed from one comma separated entry after
+ * the `@` of e.g. `<[Oxidation]@M,N-term:A>`.
+ */
+export interface GlobalModificationTarget {
+  /** Residue the modification applies to, or null for any residue at the terminus */
+  residue: string | null;
+  /** Terminus the modification is restricted to, or null for every position */
+  terminal: "N-term" | "C-term" | null;
+}
+
 export class GlobalModification extends Modification {
   targetResidues: string[] | null;
+  targets: GlobalModificationTarget[];
   globalModType: string;
 
   constructor(
@@ -1112,14 +1364,62 @@ export class GlobalModification extends Modification {
     this.modValue = new ModificationValue(value)
     this.targetResidues = target_residues;
     this.globalModType = mod_type;
+    this.targets = [];
+    for (const target of target_residues || []) {
+      const parsed = GlobalModification.parseTarget(target);
+      if (!parsed) {
+        throw new Error(`Invalid global modification target '${target}'`);
+      }
+      this.targets.push(parsed);
+    }
+  }
+
+  /**
+   * Parse a target such as `C`, `N-term`, `C-term` or `N-term:A`.
+   *
+   * @returns The target, or null if the text is not a valid target
+   */
+  static parseTarget(target: string): GlobalModificationTarget | null {
+    const match = /^(?:([NC]-term)(?::([A-Z]))?|([A-Z]))$/.exec(target);
+    if (!match) {
+      return null;
+    }
+    if (match[3]) {
+      return { residue: match[3], terminal: null };
+    }
+    return { residue: match[2] || null, terminal: match[1] as "N-term" | "C-term" };
+  }
+
+  /**
+   * Find where the modification applies on a residue. A residue can be matched more than
+   * once, e.g. `<[TMT6plex]@K,N-term>` on an N-terminal lysine.
+   *
+   * @param residue - One letter code of the residue
+   * @param isNTerminal - Whether the residue is the first of its peptidoform
+   * @param isCTerminal - Whether the residue is the last of its peptidoform
+   * @returns The termini the modification is placed on and "residue" for the side chain
+   */
+  matchTargets(residue: string, isNTerminal: boolean, isCTerminal: boolean): ("N-term" | "C-term" | "residue")[] {
+    const placements = new Set<"N-term" | "C-term" | "residue">();
+    for (const target of this.targets) {
+      if (target.residue !== null && target.residue !== residue) {
+        continue;
+      }
+      if (target.terminal === null) {
+        placements.add("residue");
+      } else if ((target.terminal === "N-term" && isNTerminal) || (target.terminal === "C-term" && isCTerminal)) {
+        placements.add(target.terminal);
+      }
+    }
+    return [...placements];
   }
 
 
-  toProforma(): string {
+  toProforma(options: ProFormaFormatOptions = {}): string {
     if (this.globalModType === "isotope") {
-      return `<${super.toProforma()}>`;
+      return `<${super.toProforma(options)}>`;
     } else {
-      const mod_value = super.toProforma();
+      const mod_value = super.toProforma(options);
       let mod_str: string;
 
       if (!mod_value.startsWith("[")) {
@@ -1128,7 +1428,11 @@ export class GlobalModification extends Modification {
         mod_str = mod_value;
       }
 
-      const targets = this.targetResidues ? this.targetResidues.join(",") : "";
+      let targetResidues = this.targetResidues || [];
+      if (options.canonical) {
+        targetResidues = [...targetResidues].sort();
+      }
+      const targets = targetResidues.join(",");
       return `<${mod_str}@${targets}>`;
     }
   }
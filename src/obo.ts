@@ -0,0 +1,382 @@
+/**
+ * Reader for controlled vocabularies distributed in the OBO flat file format, and resolvers
+ * for the modification vocabularies distributed that way.
+ */
+
+import { Composition } from './composition';
+import { parseFormula } from './formula';
+import { GlycanComposition } from './glycan';
+import { ModificationDefinition, ModificationSpecificity, normalizeAccession, VocabularyResolver } from './resolver';
+
+/**
+ * A `[Term]` stanza of an OBO file.
+ */
+export interface OboTerm {
+  id: string;
+  name: string;
+  /** Definition text without its quotes and references */
+  def: string | null;
+  /** References given in brackets after the definition, e.g. `RESID:AA0037` */
+  defRefs: string[];
+  /** Exact and related synonyms without their quotes and scope */
+  synonyms: string[];
+  /** Every tag of the stanza with its raw values, in file order */
+  tags: Map<string, string[]>;
+}
+
+/**
+ * Parse the `[Term]` stanzas of an OBO file. Obsolete terms are skipped.
+ *
+ * @param text - Contents of the OBO file
+ * @returns The terms in file order
+ */
+export function parseObo(text: string): OboTerm[] {
+  const terms: OboTerm[] = [];
+  let tags: Map<string, string[]> | null = null;
+
+  const finish = () => {
+    if (tags && tags.has("id") && tags.get("is_obsolete")?.[0] !== "true") {
+      terms.push({
+        id: tags.get("id")![0],
+        name: tags.get("name")?.[0] ?? "",
+        def: tags.has("def") ? unquote(tags.get("def")![0]) : null,
+        defRefs: tags.has("def") ? definitionReferences(tags.get("def")![0]) : [],
+        synonyms: (tags.get("synonym") ?? []).map(unquote),
+        tags
+      });
+    }
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("[")) {
+      finish();
+      tags = line === "[Term]" ? new Map() : null;
+      continue;
+    }
+    if (!tags || !line || line.startsWith("!")) {
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      continue;
+    }
+    const tag = line.substring(0, colon).trim();
+    const value = stripComment(line.substring(colon + 1).trim());
+    tags.set(tag, [...(tags.get(tag) ?? []), value]);
+  }
+  finish();
+
+  return terms;
+}
+
+/**
+ * Get the value of an `xref: key "value"` or `property_value: key "value"` pair of a term.
+ *
+ * @param term - The term to search
+ * @param key - The key of the pair, e.g. `delta_mono_mass`
+ * @returns The unquoted value, or null when the term has no such pair
+ */
+export function oboKeyValue(term: OboTerm, key: string): string | null {
+  return oboKeyValues(term).find(([pairKey]) => pairKey === key)?.[1] ?? null;
+}
+
+/**
+ * Get every `xref: key "value"` and `property_value: key "value"` pair of a term, in order.
+ *
+ * @param term - The term to read
+ * @returns The keys with their unquoted values
+ */
+export function oboKeyValues(term: OboTerm): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (const tag of ["xref", "property_value"]) {
+    for (const value of term.tags.get(tag) ?? []) {
+      const match = /^(\S+?):?\s+"((?:[^"\\]|\\.)*)"/.exec(value);
+      if (match) {
+        pairs.push([match[1], match[2]]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Parse a formula written as space separated element and count pairs, as used by PSI-MOD
+ * and XL-MOD, e.g. `C 2 H 3 N 1 O -1` or `(13)C 6 C -6`.
+ *
+ * @returns The composition, or null when the formula is not in this form
+ */
+export function parseSpacedFormula(formula: string): Composition | null {
+  const parts = formula.trim().split(/\s+/);
+  if (parts.length % 2 !== 0) {
+    return null;
+  }
+  let composition = new Composition();
+  for (let i = 0; i < parts.length; i += 2) {
+    const atom = /^(?:\((\d+)\))?([A-Z][a-z]?)$/.exec(parts[i]);
+    if (!atom || !/^-?\d+$/.test(parts[i + 1])) {
+      return null;
+    }
+    composition = composition.add(new Composition({ [`${atom[1] ?? ""}${atom[2]}`]: parseInt(parts[i + 1]) }));
+  }
+  return composition;
+}
+
+/**
+ * Resolves PSI-MOD names, `MOD:` accessions and synonyms from the PSI-MOD OBO file
+ * (`PSI-MOD.obo`). Values without a source prefix are resolved too, so put this resolver
+ * after Unimod in a `CompositeResolver`.
+ */
+export class PsiModResolver extends VocabularyResolver {
+  static readonly PREFIXES = ["M", "MOD", "PSI-MOD"];
+
+  constructor(definitions: ModificationDefinition[]) {
+    super(definitions, PsiModResolver.PREFIXES, true);
+  }
+
+  static fromObo(text: string): PsiModResolver {
+    return new PsiModResolver(parseObo(text)
+      .filter(term => term.id.startsWith("MOD:"))
+      .map(term => psiModDefinition(term, "MOD", term.id, term.name, term.synonyms)));
+  }
+}
+
+/**
+ * Resolves RESID names and `AA` accessions. RESID is not distributed as an OBO file of its
+ * own; its entries are taken from the RESID cross-references and RESID synonyms of PSI-MOD
+ * terms, so this resolver is built from the PSI-MOD OBO file.
+ */
+export class ResidResolver extends VocabularyResolver {
+  static readonly PREFIXES = ["R", "RESID"];
+
+  constructor(definitions: ModificationDefinition[]) {
+    super(definitions, ResidResolver.PREFIXES);
+  }
+
+  static fromPsiModObo(text: string): ResidResolver {
+    const definitions: ModificationDefinition[] = [];
+    for (const term of parseObo(text)) {
+      const resid = term.defRefs.map(normalizeAccession).find(ref => ref?.startsWith("RESID:"));
+      if (!term.id.startsWith("MOD:") || !resid) {
+        continue;
+      }
+      const residSynonyms = (term.tags.get("synonym") ?? [])
+        .filter(synonym => /\sRESID-\w+/.test(synonym))
+        .map(synonym => /^"((?:[^"\\]|\\.)*)"\s+\w+\s+RESID-(\w+)/.exec(synonym))
+        .filter((match): match is RegExpExecArray => match !== null);
+      const name = residSynonyms.find(match => match[2] === "name")?.[1] ?? term.name;
+      const synonyms = residSynonyms.map(match => match[1]).filter(synonym => synonym !== name);
+      definitions.push(psiModDefinition(term, "RESID", resid, name, synonyms));
+    }
+    return new ResidResolver(definitions);
+  }
+}
+
+/**
+ * Resolves XL-MOD cross-linker names, `XLMOD:` accessions and synonyms from the XL-MOD OBO
+ * file (`XLMOD.obo`). The mass of a cross-linker is the mass it adds when bridging two
+ * residues, and is counted at the site that names it.
+ */
+export class XlModResolver extends VocabularyResolver {
+  static readonly PREFIXES = ["X", "XLMOD", "XL-MOD"];
+
+  constructor(definitions: ModificationDefinition[]) {
+    super(definitions, XlModResolver.PREFIXES);
+  }
+
+  static fromObo(text: string): XlModResolver {
+    return new XlModResolver(parseObo(text).filter(term => term.id.startsWith("XLMOD:")).map(term => {
+      const formula = oboKeyValue(term, "bridgeFormula") ?? oboKeyValue(term, "deadEndFormula");
+      const composition = formula ? parseOboFormula(formula) : null;
+      const mass = oboKeyValue(term, "monoIsotopicMass");
+
+      const specificities: ModificationSpecificity[] = [];
+      for (const site of (oboKeyValue(term, "specificities") ?? "").split(/[(),]/)) {
+        const specificity = site.trim() ? terminalSpecificity(site.trim()) : null;
+        if (specificity && !specificities.some(spec => spec.site === specificity.site && spec.position === specificity.position)) {
+          specificities.push(specificity);
+        }
+      }
+
+      return {
+        source: "XLMOD",
+        accession: term.id,
+        name: term.name,
+        synonyms: term.synonyms,
+        monoisotopicMass: mass !== null ? parseFloat(mass) : composition?.monoisotopicMass ?? null,
+        averageMass: composition?.averageMass ?? null,
+        composition,
+        specificities,
+        xrefs: term.defRefs.map(normalizeAccession).filter((ref): ref is string => ref !== null)
+      };
+    }));
+  }
+}
+
+/**
+ * Resolves GNOme glycan accessions such as `G59626AS` from the GNOme OBO file (`gno.obo`).
+ *
+ * The monosaccharide composition of a term is read from a composition written like
+ * `HexNAc(2)Hex(5)` among its synonyms and property values, or else inherited from the
+ * terms it refines through `is_a` and `relationship` lines. The mass is that of the glycan
+ * as attached to a residue, as for `Glycan:` compositions. Terms whose composition cannot
+ * be found have no mass.
+ */
+export class GnomeResolver extends VocabularyResolver {
+  static readonly PREFIXES = ["G", "GNO"];
+
+  constructor(definitions: ModificationDefinition[]) {
+    super(definitions, GnomeResolver.PREFIXES);
+  }
+
+  static fromObo(text: string): GnomeResolver {
+    const terms = new Map(parseObo(text).filter(term => term.id.startsWith("GNO:")).map(term => [term.id, term]));
+    const glycans = new Map<string, GlycanComposition | null>();
+
+    const glycanOf = (id: string): GlycanComposition | null => {
+      if (glycans.has(id)) {
+        return glycans.get(id)!;
+      }
+      // Mark as visited so that cycles in the hierarchy end
+      glycans.set(id, null);
+      const term = terms.get(id);
+      let glycan: GlycanComposition | null = null;
+      if (term) {
+        glycan = ownGlycanComposition(term);
+        const parents = [
+          ...(term.tags.get("is_a") ?? []),
+          ...(term.tags.get("relationship") ?? []).map(relation => relation.split(/\s+/)[1] ?? "")
+        ];
+        for (const parent of parents) {
+          if (glycan) {
+            break;
+          }
+          glycan = glycanOf(parent);
+        }
+      }
+      glycans.set(id, glycan);
+      return glycan;
+    };
+
+    return new GnomeResolver([...terms.values()].map(term => {
+      const glycan = glycanOf(term.id);
+      return {
+        source: "GNO",
+        accession: term.id,
+        name: term.name,
+        synonyms: term.synonyms,
+        monoisotopicMass: glycan ? glycan.monoisotopicMass : null,
+        averageMass: glycan ? glycan.averageMass : null,
+        composition: glycan ? glycan.composition : null,
+        specificities: [],
+        xrefs: [],
+        ...(glycan ? { glycan } : {})
+      };
+    }));
+  }
+}
+
+/**
+ * Find a glycan composition among the synonyms and quoted property values of a term.
+ */
+function ownGlycanComposition(term: OboTerm): GlycanComposition | null {
+  const candidates = [
+    ...term.synonyms,
+    ...(term.tags.get("property_value") ?? []).map(value => /"([^"]*)"/.exec(value)?.[1] ?? "")
+  ];
+  for (const candidate of candidates) {
+    if (!candidate || !/^[A-Za-z]+(\(\d+\))?([A-Za-z]+(\(\d+\))?)*$/.test(candidate)) {
+      continue;
+    }
+    try {
+      return GlycanComposition.parse(candidate);
+    } catch (e) {
+      // Not a glycan composition
+    }
+  }
+  return null;
+}
+
+function psiModDefinition(
+  term: OboTerm,
+  source: string,
+  accession: string,
+  name: string,
+  synonyms: string[]
+): ModificationDefinition {
+  const number = (key: string) => {
+    const value = parseFloat(oboKeyValue(term, key) ?? "");
+    return isNaN(value) ? null : value;
+  };
+  const formula = oboKeyValue(term, "DiffFormula");
+  const origin = oboKeyValue(term, "Origin");
+  const termSpec = oboKeyValue(term, "TermSpec");
+  const position = termSpec === "N-term" ? "Any N-term" : termSpec === "C-term" ? "Any C-term" : "Anywhere";
+
+  return {
+    source,
+    accession,
+    name,
+    synonyms,
+    monoisotopicMass: number("DiffMono"),
+    averageMass: number("DiffAvg"),
+    composition: formula ? parseOboFormula(formula) : null,
+    specificities: origin && /^[A-WYZ]$/.test(origin) ? [{ site: origin, position, classification: null }] : [],
+    xrefs: [term.id, ...term.defRefs]
+      .map(normalizeAccession)
+      .filter((ref): ref is string => ref !== null && ref !== accession)
+  };
+}
+
+/**
+ * Parse a formula in the spaced form, or else as a ProForma formula such as `C8H10O2`.
+ */
+function parseOboFormula(formula: string): Composition | null {
+  const composition = parseSpacedFormula(formula);
+  if (composition) {
+    return composition;
+  }
+  try {
+    return parseFormula(formula);
+  } catch (e) {
+    return null;
+  }
+}
+
+function terminalSpecificity(site: string): ModificationSpecificity {
+  const terminal = /^(Protein |Any )?([NC])-term$/i.exec(site);
+  if (terminal) {
+    const position = `${terminal[1] ? terminal[1].trim() : "Any"} ${terminal[2].toUpperCase()}-term`;
+    return { site: `${terminal[2].toUpperCase()}-term`, position, classification: null };
+  }
+  return { site, position: "Anywhere", classification: null };
+}
+
+/**
+ * Get the text between the first pair of unescaped double quotes, or the value itself when
+ * it is not quoted.
+ */
+function unquote(value: string): string {
+  const match = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+  return match ? match[1].replace(/\\(.)/g, "$1") : value;
+}
+
+function definitionReferences(def: string): string[] {
+  const match = /"(?:[^"\\]|\\.)*"\s*\[(.*)\]\s*$/.exec(def);
+  return match ? match[1].split(",").map(ref => ref.trim()).filter(ref => ref) : [];
+}
+
+function stripComment(value: string): string {
+  // A trailing comment starts with an unquoted and unescaped !
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\") {
+      i++;
+    } else if (value[i] === '"') {
+      quoted = !quoted;
+    } else if (value[i] === "!" && !quoted) {
+      return value.substring(0, i).trim();
+    }
+  }
+  return value;
+}
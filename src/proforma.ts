@@ -1,4 +1,15 @@
+import { Composition } from './composition';
+import { parseFormula } from './formula';
 import { GlobalModification, Modification, ModificationValue } from './modification';
+import { AA_mass, electron } from './resources';
+import {
+  ChainNode,
+  PeptidoformNode,
+  ProFormaDocument,
+  RangeNode,
+  TagNode,
+  UnknownPositionNode
+} from './proforma_ast';
 
 export class SequenceAmbiguity {
   value: string;
@@ -14,6 +25,183 @@ export class SequenceAmbiguity {
   }
 }
 
+/**
+ * One entry of the ionic species of a charge state, e.g. `+2Na+` in `/2[+2Na+,+H+]`.
+ */
+export class Adduct {
+  static readonly PATTERN = /^([+-]?)(\d*)([A-Za-z[][A-Za-z0-9[\]]*?)([+-])(\d*)$/;
+
+  /** Number of ions added, negative when they are removed */
+  count: number;
+  /** Formula of the ion in the syntax of `Formula:` tags, e.g. `Na` or `[13C]H3`, `e` for an electron */
+  formula: string;
+  /** Charge of a single ion */
+  charge: number;
+
+  constructor(count: number, formula: string, charge: number) {
+    this.count = count;
+    this.formula = formula;
+    this.charge = charge;
+  }
+
+  /**
+   * Parse a single adduct, returning null if the text is not a valid adduct.
+   */
+  static parse(adductStr: string): Adduct | null {
+    const match = Adduct.PATTERN.exec(adductStr);
+    if (!match) {
+      return null;
+    }
+    const [, countSign, countDigits, formula, chargeSign, chargeDigits] = match;
+    const count = (countSign === "-" ? -1 : 1) * (countDigits ? parseInt(countDigits) : 1);
+    const charge = (chargeSign === "-" ? -1 : 1) * (chargeDigits ? parseInt(chargeDigits) : 1);
+    if (count === 0 || charge === 0 || (formula !== "e" && Adduct._composition(formula) === null)) {
+      return null;
+    }
+    return new Adduct(count, formula, charge);
+  }
+
+  /**
+   * Monoisotopic mass of a single ion, accounting for the electrons it lacks or carries.
+   */
+  get ionMass(): number {
+    const atoms = this.formula === "e" ? 0 : Adduct._composition(this.formula)?.monoisotopicMass ?? 0;
+    return atoms - this.charge * electron;
+  }
+
+  /** Mass added to the neutral molecule by this adduct */
+  get mass(): number {
+    return this.count * this.ionMass;
+  }
+
+  /** Charge added to the neutral molecule by this adduct */
+  get totalCharge(): number {
+    return this.count * this.charge;
+  }
+
+  toString(): string {
+    const count = Math.abs(this.count) === 1 ? "" : `${Math.abs(this.count)}`;
+    const charge = Math.abs(this.charge) === 1 ? "" : `${Math.abs(this.charge)}`;
+    return `${this.count < 0 ? "-" : "+"}${count}${this.formula}${this.charge < 0 ? "-" : "+"}${charge}`;
+  }
+
+  /**
+   * Parse the formula of an ion with the parser of `Formula:` tags, returning null if it is
+   * not a valid formula.
+   */
+  private static _composition(formula: string): Composition | null {
+    try {
+      return parseFormula(formula);
+    } catch (e) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Error raised when a ProForma string cannot be parsed.
+ *
+ * Carries a stable error code, the offending span in the original input string
+ * (start inclusive, end exclusive) and, where applicable, a hint describing the
+ * token the parser expected at that location.
+ */
+export class ProFormaSyntaxError extends Error {
+  static readonly UNCLOSED_BRACKET = "unclosed_bracket";
+  static readonly UNMATCHED_BRACKET = "unmatched_bracket";
+  static readonly UNCLOSED_BRACE = "unclosed_brace";
+  static readonly UNMATCHED_BRACE = "unmatched_brace";
+  static readonly UNCLOSED_PARENTHESIS = "unclosed_parenthesis";
+  static readonly UNMATCHED_PARENTHESIS = "unmatched_parenthesis";
+  static readonly UNCLOSED_GLOBAL = "unclosed_global";
+  static readonly INVALID_GLOBAL = "invalid_global";
+  static readonly INVALID_LABILE = "invalid_labile";
+  static readonly INVALID_TERMINAL = "invalid_terminal";
+  static readonly INVALID_COUNT = "invalid_count";
+  static readonly INVALID_CHARGE = "invalid_charge";
+  static readonly MISPLACED_MODIFICATION = "misplaced_modification";
+  static readonly UNKNOWN_RESIDUE = "unknown_residue";
+  static readonly UNEXPECTED_CHARACTER = "unexpected_character";
+  static readonly EMPTY_SEQUENCE = "empty_sequence";
+  static readonly INVALID_FORMULA = "invalid_formula";
+  static readonly INVALID_GLYCAN = "invalid_glycan";
+  static readonly INVALID_NAME = "invalid_name";
+  static readonly INVALID_IONIC_SPECIES = "invalid_ionic_species";
+  static readonly CHARGE_MISMATCH = "charge_mismatch";
+
+  readonly code: string;
+  readonly start: number;
+  readonly end: number;
+  readonly expected: string | null;
+
+  /**
+   * @param message - Human readable description of the problem
+   * @param code - One of the static error codes of this class
+   * @param start - Offset of the first offending character in the input
+   * @param end - Offset just past the last offending character (defaults to start + 1)
+   * @param expected - Description of the token that was expected, if any
+   */
+  constructor(
+    message: string,
+    code: string,
+    start: number,
+    end: number = start + 1,
+    expected: string | null = null
+  ) {
+    super(`${message} at position ${start}`);
+    this.name = "ProFormaSyntaxError";
+    this.code = code;
+    this.start = start;
+    this.end = end;
+    this.expected = expected;
+  }
+
+  get span(): [number, number] {
+    return [this.start, this.end];
+  }
+
+  /**
+   * Convert the error into a diagnostic record as collected by lenient parsing.
+   */
+  toDiagnostic(severity: DiagnosticSeverity = "error"): ProFormaDiagnostic {
+    return {
+      severity,
+      code: this.code,
+      message: this.message,
+      start: this.start,
+      end: this.end,
+      expected: this.expected
+    };
+  }
+}
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A problem found while parsing a ProForma string in lenient mode.
+ */
+export interface ProFormaDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  start: number;
+  end: number;
+  expected: string | null;
+}
+
+export interface ProFormaParseOptions {
+  /** Collect problems as diagnostics and recover instead of throwing on the first error */
+  lenient?: boolean;
+  /** Offset of the string within a larger input, added to every reported span */
+  offset?: number;
+}
+
+type ErrorReporter = (error: ProFormaSyntaxError, severity?: DiagnosticSeverity) => void;
+
+const throwError: ErrorReporter = (error, severity = "error") => {
+  if (severity === "error") {
+    throw error;
+  }
+};
 
 
 export class ProFormaParser {
@@ -28,11 +216,24 @@ export class ProFormaParser {
   //static readonly UNKNOWN_POSITION_PATTERN = /(\[([^\]]+)\])(\^(\d+))?(\?)/;
 
 
-  static parse(proformaStr: string): [string, Record<number, Modification[]>, GlobalModification[], SequenceAmbiguity[], [number | null, string | null]] {
-    let baseSequence = "";
+  /**
+   * Parse a single peptidoform into the legacy tuple form.
+   *
+   * Modifications are keyed by residue index, with -1 for N-terminal, -2 for C-terminal,
+   * -3 for labile and -4 for unknown position modifications. See `parsePeptidoform` for
+   * the typed syntax tree this is derived from.
+   *
+   * @param proformaStr - A single peptidoform, without chimeric or multi-chain separators
+   * @param options - Parsing options
+   * @returns Base sequence, modifications by position, global modifications, sequence
+   * ambiguities, charge information and diagnostics collected in lenient mode
+   */
+  static parse(
+    proformaStr: string,
+    options: ProFormaParseOptions = {}
+  ): [string, Record<number, Modification[]>, GlobalModification[], SequenceAmbiguity[], [number | null, string | null], ProFormaDiagnostic[]] {
+    const node = ProFormaParser.parsePeptidoform(proformaStr, options);
     const modifications: Record<number, Modification[]> = {};
-    const globalMods: GlobalModification[] = [];
-    const sequenceAmbiguities: SequenceAmbiguity[] = [];
 
     const getModsAtPosition = (pos: number): Modification[] => {
       if (!modifications[pos]) {
@@ -41,18 +242,315 @@ export class ProFormaParser {
       return modifications[pos];
     };
 
+    for (const unknownMod of node.unknownPositionMods) {
+      getModsAtPosition(-4).push(...ProFormaParser.expandUnknownPosition(unknownMod));
+    }
+    for (const labile of node.labileMods) {
+      getModsAtPosition(-3).push(labile.tag.modification);
+    }
+    for (const tag of node.nTerm?.tags ?? []) {
+      getModsAtPosition(-1).push(tag.modification);
+    }
+    for (const residue of node.residues) {
+      for (const tag of residue.tags) {
+        getModsAtPosition(residue.index).push(tag.modification);
+      }
+    }
+    for (const range of node.ranges) {
+      for (const tag of range.tags) {
+        for (let pos = range.startIndex; pos <= range.endIndex; pos++) {
+          getModsAtPosition(pos).push(tag.modification);
+        }
+      }
+    }
+    for (const tag of node.cTerm?.tags ?? []) {
+      getModsAtPosition(-2).push(tag.modification);
+    }
+
+    return [
+      node.residues.map(residue => residue.value).join(""),
+      modifications,
+      node.globals.map(global => global.modification),
+      node.sequenceAmbiguities.map(ambiguity => new SequenceAmbiguity(ambiguity.value, ambiguity.index)),
+      [node.charge?.charge ?? null, node.charge?.ionicSpecies ?? null],
+      node.diagnostics
+    ];
+  }
+
+  /**
+   * Get one modification per occurrence of an unknown position modification, so that
+   * `[Phospho]^2?` yields two separate Phospho modifications.
+   */
+  static expandUnknownPosition(node: UnknownPositionNode): Modification[] {
+    const mods = [node.tag.modification];
+    for (let k = 1; k < node.count; k++) {
+      mods.push(ProFormaParser._createModification(node.tag.raw, { isUnknownPosition: true }));
+    }
+    return mods;
+  }
+
+  /**
+   * Parse a complete ProForma string, including chimeric (`+`) and multi-chain (`//`)
+   * notation, into a syntax tree.
+   *
+   * @param proformaStr - The ProForma string
+   * @param options - Parsing options
+   */
+  static parseDocument(proformaStr: string, options: ProFormaParseOptions = {}): ProFormaDocument {
+    const baseOffset = options.offset ?? 0;
+    const chains: ChainNode[] = [];
+    const chainParts = ProFormaParser._splitOutsideBrackets(proformaStr, "//");
+
+    chainParts.forEach(([chainStr, chainStart, chainEnd], chainIndex) => {
+      const peptidoforms: PeptidoformNode[] = [];
+      const parts = ProFormaParser._splitOutsideBrackets(chainStr, "+");
+      parts.forEach(([partStr, partStart, partEnd], partIndex) => {
+        const offset = baseOffset + chainStart + partStart;
+        // A lone empty input is reported as a peptidoform without residues
+        if (partStr || (chainParts.length === 1 && parts.length === 1)) {
+          peptidoforms.push(ProFormaParser.parsePeptidoform(partStr, { ...options, offset }));
+          return;
+        }
+
+        const error = chainStr
+          ? ProFormaParser._emptyPartError("peptidoform", "+", partIndex,
+            baseOffset + chainStart + partStart, baseOffset + chainStart + partEnd)
+          : ProFormaParser._emptyPartError("chain", "//", chainIndex,
+            baseOffset + chainStart, baseOffset + chainEnd);
+        if (!options.lenient) {
+          throw error;
+        }
+        const empty = ProFormaParser.parsePeptidoform("", { ...options, offset });
+        empty.diagnostics.splice(0, empty.diagnostics.length, error.toDiagnostic("error"));
+        peptidoforms.push(empty);
+      });
+      chains.push({
+        kind: "chain",
+        start: baseOffset + chainStart,
+        end: baseOffset + chainStart + chainStr.length,
+        peptidoforms
+      });
+    });
+
+    const diagnostics = chains
+      .flatMap(chain => chain.peptidoforms)
+      .flatMap(peptidoform => peptidoform.diagnostics);
+
+    return {
+      kind: "document",
+      start: baseOffset,
+      end: baseOffset + proformaStr.length,
+      chains,
+      diagnostics
+    };
+  }
+
+  /**
+   * Create the error for an empty chain or peptidoform, e.g. the one after `PEPTIDE//`. The
+   * span covers the part, or the separator next to it when the part has no characters at all.
+   *
+   * @param what - "chain" or "peptidoform"
+   * @param separator - The separator the part was split on
+   * @param index - Index of the empty part
+   * @param start - Offset of the part within the original input
+   * @param end - Offset of the end of the part within the original input
+   */
+  private static _emptyPartError(
+    what: string,
+    separator: string,
+    index: number,
+    start: number,
+    end: number
+  ): ProFormaSyntaxError {
+    if (start === end) {
+      [start, end] = index > 0 ? [start - separator.length, start] : [end, end + separator.length];
+    }
+    return new ProFormaSyntaxError(
+      `Empty ${what} ${index > 0 ? "after" : "before"} '${separator}'`,
+      ProFormaSyntaxError.EMPTY_SEQUENCE,
+      start,
+      end,
+      "amino acid"
+    );
+  }
+
+  /**
+   * Split on a separator that occurs outside of any brackets, trimming whitespace around
+   * each part. Empty parts are kept so that they can be reported.
+   *
+   * @returns Each part with its offset within `str` and the end of the part before trimming
+   */
+  private static _splitOutsideBrackets(str: string, separator: string): [string, number, number][] {
+    const parts: [string, number, number][] = [];
+    let bracketLevel = 0;
+    let partStart = 0;
+
+    const addPart = (end: number): void => {
+      const raw = str.substring(partStart, end);
+      const trimmed = raw.trim();
+      parts.push([trimmed, trimmed ? partStart + raw.indexOf(trimmed) : partStart, end]);
+    };
+
+    for (let i = 0; i < str.length; i++) {
+      const char = str[i];
+      if (char === '[' || char === '{' || char === '(') {
+        bracketLevel++;
+      } else if (char === ']' || char === '}' || char === ')') {
+        // Unmatched closing brackets must not hide later separators
+        bracketLevel = Math.max(0, bracketLevel - 1);
+      } else if (bracketLevel === 0 && str.startsWith(separator, i)) {
+        addPart(i);
+        partStart = i + separator.length;
+        i += separator.length - 1;
+      }
+    }
+    addPart(str.length);
+    return parts;
+  }
+
+  /**
+   * Parse a single peptidoform into a syntax tree.
+   *
+   * @param proformaStr - A single peptidoform, without chimeric or multi-chain separators
+   * @param options - Parsing options
+   */
+  static parsePeptidoform(proformaStr: string, options: ProFormaParseOptions = {}): PeptidoformNode {
+    const diagnostics: ProFormaDiagnostic[] = [];
+    // Offset of proformaStr[0] within the original input, used to report error spans
+    let offset = options.offset ?? 0;
+    const node: PeptidoformNode = {
+      kind: "peptidoform",
+      start: offset,
+      end: offset + proformaStr.length,
+      names: [],
+      globals: [],
+      unknownPositionMods: [],
+      labileMods: [],
+      nTerm: null,
+      residues: [],
+      ranges: [],
+      sequenceAmbiguities: [],
+      cTerm: null,
+      charge: null,
+      diagnostics
+    };
+    const residues = node.residues;
+
+    // Strict mode throws on errors and ignores warnings, lenient mode records both and recovers
+    const report: ErrorReporter = options.lenient
+      ? (error, severity = "error") => { diagnostics.push(error.toDiagnostic(severity)); }
+      : throwError;
+
+    const createTag = (
+      modStr: string,
+      start: number,
+      end: number,
+      modOptions: Parameters<typeof ProFormaParser._createModification>[1] = {}
+    ): TagNode => {
+      const modification = ProFormaParser._createModification(modStr, modOptions);
+      ProFormaParser._checkModificationValue(modification, start, end, report);
+      return {
+        kind: "tag",
+        start,
+        end,
+        raw: modStr,
+        enclosure: modOptions.isAmbiguous || modOptions.isLabile ? "curly" : "square",
+        modification
+      };
+    };
+
+    // Names of the compound ion (>>>), peptidoform ion (>>) and peptidoform (>), at most one
+    // of each and in that order
+    const nameLevels = ["peptidoform", "ion", "compound"] as const;
+    const nameScopes = ["peptidoform", "peptidoform ion", "compound ion"];
+    let previousMarkers = 4;
+    while (proformaStr.startsWith("(>")) {
+      const closing = proformaStr.indexOf(")");
+      if (closing === -1) {
+        report(new ProFormaSyntaxError(
+          "Unclosed name parenthesis",
+          ProFormaSyntaxError.UNCLOSED_PARENTHESIS,
+          offset,
+          offset + proformaStr.length,
+          ")"
+        ));
+        offset += proformaStr.length;
+        proformaStr = "";
+        break;
+      }
+
+      let markers = 1;
+      while (proformaStr[markers] === ">") {
+        markers++;
+      }
+      markers -= 1;
+      const value = proformaStr.substring(markers + 1, closing);
+      const nameEnd = offset + closing + 1;
+
+      if (markers > 3 || !value) {
+        report(new ProFormaSyntaxError(
+          markers > 3 ? "A name is prefixed by at most three '>'" : "Empty name",
+          ProFormaSyntaxError.INVALID_NAME,
+          offset,
+          nameEnd,
+          markers > 3 ? "'>', '>>' or '>>>'" : "name"
+        ));
+      } else if (markers >= previousMarkers) {
+        report(new ProFormaSyntaxError(
+          markers === previousMarkers
+            ? `Repeated ${nameScopes[markers - 1]} name`
+            : `The ${nameScopes[markers - 1]} name must come before the ${nameScopes[previousMarkers - 1]} name`,
+          ProFormaSyntaxError.INVALID_NAME,
+          offset,
+          nameEnd,
+          previousMarkers > 1 ? "name of a narrower scope" : "global modification or residue"
+        ));
+      } else {
+        node.names.push({
+          kind: "name",
+          start: offset,
+          end: nameEnd,
+          level: nameLevels[markers - 1],
+          value
+        });
+        previousMarkers = markers;
+      }
+
+      proformaStr = proformaStr.substring(closing + 1);
+      offset = nameEnd;
+    }
+
     while (proformaStr.startsWith("<")) {
       const endBracket = proformaStr.indexOf(">");
       if (endBracket === -1) {
-        throw new Error("Unclosed global modification angle bracket");
+        report(new ProFormaSyntaxError(
+          "Unclosed global modification angle bracket",
+          ProFormaSyntaxError.UNCLOSED_GLOBAL,
+          offset,
+          offset + proformaStr.length,
+          ">"
+        ));
+        proformaStr = proformaStr.substring(1);
+        offset += 1;
+        break;
       }
 
       const globalModStr = proformaStr.substring(1, endBracket);
-      proformaStr = proformaStr.substring(endBracket + 1);  // Remove processed part
-
-      if (globalModStr.includes("@")) {
+      const globalEnd = offset + endBracket + 1;
+
+      if (!globalModStr) {
+        report(new ProFormaSyntaxError(
+          "Empty global modification",
+          ProFormaSyntaxError.INVALID_GLOBAL,
+          offset,
+          globalEnd,
+          "modification"
+        ));
+      } else if (globalModStr.includes("@")) {
         // Fixed protein modification
-        const [modPart, targets] = globalModStr.split("@");
+        const atPos = globalModStr.indexOf("@");
+        const modPart = globalModStr.substring(0, atPos);
+        const targets = globalModStr.substring(atPos + 1);
         let modValue = modPart;
 
         if (modPart.startsWith("[") && modPart.endsWith("]")) {
@@ -60,98 +558,127 @@ export class ProFormaParser {
         }
 
         const targetResidues = targets.split(",");
-        globalMods.push(
-          new GlobalModification(modValue, targetResidues, "fixed")
-        );
+        if (!modValue || targetResidues.some(target => !GlobalModification.parseTarget(target))) {
+          report(new ProFormaSyntaxError(
+            "Global fixed modification requires a modification and valid targets",
+            ProFormaSyntaxError.INVALID_GLOBAL,
+            offset,
+            globalEnd,
+            modValue ? "target residue" : "modification"
+          ));
+        } else {
+          node.globals.push({
+            kind: "global",
+            start: offset,
+            end: globalEnd,
+            raw: globalModStr,
+            modification: new GlobalModification(modValue, targetResidues, "fixed")
+          });
+        }
       } else {
         // Isotope labeling
-        globalMods.push(new GlobalModification(globalModStr, null, "isotope"));
-      }
-    }
-
-    if (proformaStr.includes("?")) {
-      let i = 0;
-      const unknownPosMods: string[] = [];
-      while (i < proformaStr.length) {
-        if (proformaStr[i] !== "[") {
-          if (
-            unknownPosMods.length > 0 &&
-            i < proformaStr.length &&
-            proformaStr[i] === "?"
-          ) {
-            for (const modStr of unknownPosMods) {
-              const mod = ProFormaParser._createModification(
-                modStr,
-                { isUnknownPosition: true }
-              );
-              getModsAtPosition(-4).push(mod);
-            }
-            i += 1;
-          }
-          unknownPosMods.length = 0;
-          break;
-        }
+        node.globals.push({
+          kind: "global",
+          start: offset,
+          end: globalEnd,
+          raw: globalModStr,
+          modification: new GlobalModification(globalModStr, null, "isotope")
+        });
+      }
 
-        let bracketCount = 1;
-        let j = i + 1;
-        while (j < proformaStr.length && bracketCount > 0) {
-          if (proformaStr[j] === "[") {
-            bracketCount += 1;
-          } else if (proformaStr[j] === "]") {
-            bracketCount -= 1;
-          }
-          j += 1;
-        }
+      proformaStr = proformaStr.substring(endBracket + 1);  // Remove processed part
+      offset = globalEnd;
+    }
 
-        if (bracketCount > 0) {
-          throw new Error(`Unclosed bracket at position ${i}`);
-        }
+    // Modifications of unknown position are only consumed if the bracket run ends with "?".
+    // Unclosed brackets are left for the N-terminal and residue parsing below to report.
+    let i = 0;
+    // Modification text, bracket span, span including the count and the count itself
+    const unknownPosMods: [string, number, number, number, number][] = [];
+    while (i < proformaStr.length && proformaStr[i] === "[") {
+      const closing = ProFormaParser._findClosingBracket(proformaStr, i);
+      if (closing === -1) {
+        break;
+      }
 
-        const modStr = proformaStr.substring(i + 1, j - 1);
+      const modStr = proformaStr.substring(i + 1, closing);
+      let j = closing + 1;
 
-        let count = 1;
-        if (j < proformaStr.length && proformaStr[j] === "^") {
+      let count = 1;
+      if (j < proformaStr.length && proformaStr[j] === "^") {
+        j += 1;
+        const numStart = j;
+        while (j < proformaStr.length && /\d/.test(proformaStr[j])) {
           j += 1;
-          const numStart = j;
-          while (j < proformaStr.length && /\d/.test(proformaStr[j])) {
-            j += 1;
-          }
-          if (j > numStart) {
-            count = parseInt(proformaStr.substring(numStart, j));
-          }
         }
-
-        for (let k = 0; k < count; k++) {
-          unknownPosMods.push(modStr);
+        count = j > numStart ? parseInt(proformaStr.substring(numStart, j)) : 0;
+        if (count < 1) {
+          report(new ProFormaSyntaxError(
+            "Modification count after '^' must be a positive integer",
+            ProFormaSyntaxError.INVALID_COUNT,
+            offset + numStart - 1,
+            offset + j,
+            "positive integer"
+          ));
+          count = 1;
         }
-        i = j;
       }
-      proformaStr = proformaStr.substring(i);
+
+      unknownPosMods.push([modStr, offset + i, offset + closing + 1, offset + j, count]);
+      i = j;
     }
 
-    let i = 0;
+    if (unknownPosMods.length > 0 && i < proformaStr.length && proformaStr[i] === "?") {
+      for (const [modStr, modStart, modEnd, nodeEnd, count] of unknownPosMods) {
+        node.unknownPositionMods.push({
+          kind: "unknown_position",
+          start: modStart,
+          end: nodeEnd,
+          tag: createTag(modStr, modStart, modEnd, { isUnknownPosition: true }),
+          count
+        });
+      }
+      proformaStr = proformaStr.substring(i + 1);
+      offset += i + 1;
+    }
+
+    i = 0;
     while (i < proformaStr.length && proformaStr[i] === "{") {
       const j = proformaStr.indexOf("}", i);
       if (j === -1) {
-        throw new Error(`Unclosed curly brace at position ${i}`);
+        report(new ProFormaSyntaxError(
+          "Unclosed curly brace",
+          ProFormaSyntaxError.UNCLOSED_BRACE,
+          offset + i,
+          offset + proformaStr.length,
+          "}"
+        ));
+        i = proformaStr.length;
+        break;
       }
 
       const modStr = proformaStr.substring(i + 1, j);
       if (!modStr.startsWith("Glycan:")) {
-        throw new Error(
-          `Labile modification must start with 'Glycan:', found: ${modStr}`
-        );
+        report(new ProFormaSyntaxError(
+          `Labile modification must start with 'Glycan:', found: ${modStr}`,
+          ProFormaSyntaxError.INVALID_LABILE,
+          offset + i,
+          offset + j + 1,
+          "Glycan:"
+        ));
       }
 
-      const mod = ProFormaParser._createModification(
-        modStr,
-        { isLabile: true }
-      );
-      getModsAtPosition(-3).push(mod);
+      node.labileMods.push({
+        kind: "labile",
+        start: offset + i,
+        end: offset + j + 1,
+        tag: createTag(modStr, offset + i, offset + j + 1, { isLabile: true })
+      });
       i = j + 1;
     }
 
     proformaStr = proformaStr.substring(i);
+    offset += i;
 
     if (proformaStr.startsWith('[')) {
       let bracketLevel = 0;
@@ -169,37 +696,35 @@ export class ProFormaParser {
 
       if (terminatorPos !== -1) {
         const nTerminalPart = proformaStr.substring(0, terminatorPos);
-        proformaStr = proformaStr.substring(terminatorPos + 1);
 
         // Parse N-terminal modifications
-        let currentPos = 0;
-        while (currentPos < nTerminalPart.length) {
-          if (nTerminalPart[currentPos] === '[') {
-            let bracketDepth = 1;
-            let endPos = currentPos + 1;
-
-            // Find matching closing bracket
-            while (endPos < nTerminalPart.length && bracketDepth > 0) {
-              if (nTerminalPart[endPos] === '[') bracketDepth++;
-              if (nTerminalPart[endPos] === ']') bracketDepth--;
-              endPos++;
-            }
-
-            if (bracketDepth === 0) {
-              const modString = nTerminalPart.substring(currentPos + 1, endPos - 1);
-              const nTermMod = ProFormaParser._createModification(modString, { isTerminal: true });
-              getModsAtPosition(-1).push(nTermMod);
-            }
-
-            currentPos = endPos;
-          } else {
-            currentPos++;
-          }
+        node.nTerm = { kind: "n_term", start: offset, end: offset + terminatorPos + 1, tags: [] };
+        for (const [modStart, modEnd] of ProFormaParser._splitTerminalMods(nTerminalPart, offset, "N", report)) {
+          const modString = nTerminalPart.substring(modStart + 1, modEnd);
+          node.nTerm.tags.push(
+            createTag(modString, offset + modStart, offset + modEnd + 1, { isTerminal: true })
+          );
         }
+
+        proformaStr = proformaStr.substring(terminatorPos + 1);
+        offset += terminatorPos + 1;
       }
     }
 
-    const chargeInfo = ProFormaParser.parseChargeInfo(proformaStr);
+    const chargeInfo = ProFormaParser.parseChargeInfo(proformaStr, offset, report);
+    if (chargeInfo[1] !== null) {
+      const speciesOffset = offset + proformaStr.indexOf("[", chargeInfo[0].length) + 1;
+      node.charge = {
+        kind: "charge",
+        start: offset + chargeInfo[0].length,
+        end: offset + proformaStr.length,
+        charge: chargeInfo[1],
+        ionicSpecies: chargeInfo[2],
+        adducts: chargeInfo[2] === null
+          ? []
+          : ProFormaParser.parseIonicSpecies(chargeInfo[2], chargeInfo[1], speciesOffset, report)
+      };
+    }
 
     proformaStr = chargeInfo[0]
 
@@ -219,56 +744,68 @@ export class ProFormaParser {
         }
       }
 
-      if (terminatorPos !== -1) {
-        const cTerminalPart = proformaStr.substring(terminatorPos + 1);
-        proformaStr = proformaStr.substring(0, terminatorPos);
-
+      // A hyphen that is not followed by a modification is left for the residue loop to reject
+      const cTerminalPart = proformaStr.substring(terminatorPos + 1);
+      if (terminatorPos !== -1 && (!cTerminalPart || cTerminalPart.startsWith("["))) {
         // Parse C-terminal modifications
-        let currentPos = 0;
-        while (currentPos < cTerminalPart.length) {
-          if (cTerminalPart[currentPos] === '[') {
-            let bracketDepth = 1;
-            let endPos = currentPos + 1;
-
-            // Find matching closing bracket
-            while (endPos < cTerminalPart.length && bracketDepth > 0) {
-              if (cTerminalPart[endPos] === '[') bracketDepth++;
-              if (cTerminalPart[endPos] === ']') bracketDepth--;
-              endPos++;
-            }
-
-            if (bracketDepth === 0) {
-              const modString = cTerminalPart.substring(currentPos + 1, endPos - 1);
-              const cTermMod = ProFormaParser._createModification(modString, { isTerminal: true });
-              getModsAtPosition(-2).push(cTermMod);
-            }
-
-            currentPos = endPos;
-          } else {
-            currentPos++;
-          }
+        const cTerminalOffset = offset + terminatorPos + 1;
+        node.cTerm = {
+          kind: "c_term",
+          start: offset + terminatorPos,
+          end: cTerminalOffset + cTerminalPart.length,
+          tags: []
+        };
+        for (const [modStart, modEnd] of ProFormaParser._splitTerminalMods(cTerminalPart, cTerminalOffset, "C", report)) {
+          const modString = cTerminalPart.substring(modStart + 1, modEnd);
+          node.cTerm.tags.push(
+            createTag(modString, cTerminalOffset + modStart, cTerminalOffset + modEnd + 1, { isTerminal: true })
+          );
         }
+
+        proformaStr = proformaStr.substring(0, terminatorPos);
       }
     }
 
     i = 0;
     let nextModIsGap = false;
-    const rangeStack: number[] = [];
+    // Residue index and input offset of each open range parenthesis
+    const rangeStack: [number, number][] = [];
     let currentPosition = 0;
 
+    const addResidue = (value: string, start: number): void => {
+      residues.push({ kind: "residue", start, end: start + 1, value, index: residues.length, tags: [] });
+    };
+
+    const attachTag = (tag: TagNode): void => {
+      const residue = residues[residues.length - 1];
+      residue.tags.push(tag);
+      residue.end = tag.end;
+    };
+
     while (i < proformaStr.length) {
       const char = proformaStr[i];
 
       if (i + 1 < proformaStr.length && proformaStr.substring(i, i + 2) === "(?") {
         const closingParen = proformaStr.indexOf(")", i + 2);
         if (closingParen === -1) {
-          throw new Error("Unclosed sequence ambiguity parenthesis");
+          report(new ProFormaSyntaxError(
+            "Unclosed sequence ambiguity parenthesis",
+            ProFormaSyntaxError.UNCLOSED_PARENTHESIS,
+            offset + i,
+            offset + proformaStr.length,
+            ")"
+          ));
+          i += 2;
+          continue;
         }
 
-        const ambiguousSeq = proformaStr.substring(i + 2, closingParen);
-        sequenceAmbiguities.push(
-          new SequenceAmbiguity(ambiguousSeq, currentPosition)
-        );
+        node.sequenceAmbiguities.push({
+          kind: "sequence_ambiguity",
+          start: offset + i,
+          end: offset + closingParen + 1,
+          value: proformaStr.substring(i + 2, closingParen),
+          index: currentPosition
+        });
 
         // Skip past the ambiguity notation
         i = closingParen + 1;
@@ -277,89 +814,117 @@ export class ProFormaParser {
 
       if (char === "(") {
         // Start of a range
-        rangeStack.push(baseSequence.length);
+        rangeStack.push([residues.length, offset + i]);
         i += 1;
         continue;
       }
       else if (char === ")") {
         // End of a range
         if (!rangeStack.length) {
-          throw new Error("Unmatched closing parenthesis");
+          report(new ProFormaSyntaxError(
+            "Unmatched closing parenthesis",
+            ProFormaSyntaxError.UNMATCHED_PARENTHESIS,
+            offset + i
+          ));
+          i += 1;
+          continue;
         }
 
-        const rangeStart = rangeStack.pop()!;
-        const rangeEnd = baseSequence.length - 1;
+        const [rangeStart, rangeOffset] = rangeStack.pop()!;
+        const rangeEnd = residues.length - 1;
+        const range: RangeNode = {
+          kind: "range",
+          start: rangeOffset,
+          end: offset + i + 1,
+          startIndex: rangeStart,
+          endIndex: rangeEnd,
+          tags: []
+        };
 
         // Look for modification after the range
         let j = i + 1;
         while (j < proformaStr.length && proformaStr[j] === "[") {
           // Extract the modification that applies to the range
           const modStart = j;
-          let bracketCount = 1;
-          j += 1;
-
-          while (j < proformaStr.length && bracketCount > 0) {
-            if (proformaStr[j] === "[") {
-              bracketCount += 1;
-            } else if (proformaStr[j] === "]") {
-              bracketCount -= 1;
-            }
-            j += 1;
+          const modEnd = ProFormaParser._findClosingBracket(proformaStr, modStart);
+          if (modEnd === -1) {
+            report(new ProFormaSyntaxError(
+              "Unclosed square bracket",
+              ProFormaSyntaxError.UNCLOSED_BRACKET,
+              offset + modStart,
+              offset + proformaStr.length,
+              "]"
+            ));
+            j = proformaStr.length;
+            break;
           }
-
-          if (bracketCount === 0) {
-            const modStr = proformaStr.substring(modStart + 1, j - 1);
-            const mod = ProFormaParser._createModification(
-              modStr,
-              {
-                inRange: true,
-                rangeStart: rangeStart,
-                rangeEnd: rangeEnd
-              }
-            );
-
-            for (let pos = mod.rangeStart!; pos <= mod.rangeEnd!; pos++) {
-              getModsAtPosition(pos).push(mod);
+          j = modEnd + 1;
+
+          const modStr = proformaStr.substring(modStart + 1, modEnd);
+          range.tags.push(createTag(
+            modStr,
+            offset + modStart,
+            offset + modEnd + 1,
+            {
+              inRange: true,
+              rangeStart: rangeStart,
+              rangeEnd: rangeEnd
             }
-          }
+          ));
+          range.end = offset + modEnd + 1;
         }
 
+        node.ranges.push(range);
         i = j;
 
       }
       else if (char === "[") {
-        let bracketCount = 1;
-        let j = i + 1;
-        while (j < proformaStr.length && bracketCount > 0) {
-          if (proformaStr[j] === "[") {
-            bracketCount += 1;
-          } else if (proformaStr[j] === "]") {
-            bracketCount -= 1;
-          }
-          j += 1;
-        }
-
-        if (bracketCount > 0) {
-          throw new Error(`Unclosed square bracket at position ${i}`);
-        }
-        j -= 1;
+        const j = ProFormaParser._findClosingBracket(proformaStr, i);
         if (j === -1) {
-          throw new Error(`Unclosed square bracket at position ${i}`);
+          report(new ProFormaSyntaxError(
+            "Unclosed square bracket",
+            ProFormaSyntaxError.UNCLOSED_BRACKET,
+            offset + i,
+            offset + proformaStr.length,
+            "]"
+          ));
+          break;
         }
 
         const modStr = proformaStr.substring(i + 1, j);
-        let mod: Modification;
+        const modStart = offset + i;
+        const modEnd = offset + j + 1;
+
+        if (!residues.length) {
+          report(new ProFormaSyntaxError(
+            "Modification must follow an amino acid or be separated from the sequence by '-'",
+            ProFormaSyntaxError.MISPLACED_MODIFICATION,
+            modStart,
+            modEnd,
+            "-"
+          ));
+          // Best effort: a modification in front of the sequence is most likely N-terminal
+          if (!node.nTerm) {
+            node.nTerm = { kind: "n_term", start: modStart, end: modEnd, tags: [] };
+          }
+          node.nTerm.tags.push(createTag(modStr, modStart, modEnd, { isTerminal: true }));
+          node.nTerm.end = modEnd;
+          i = j + 1;
+          continue;
+        }
+
+        let tag: TagNode;
 
         if (nextModIsGap) {
-          mod = ProFormaParser._createModification(modStr, { isGap: true });
+          tag = createTag(modStr, modStart, modEnd, { isGap: true });
           nextModIsGap = false;
         }
         // Check if this is a crosslink reference
         else if (ProFormaParser.CROSSLINK_REF_PATTERN.test(modStr)) {
-          mod = ProFormaParser._createModification(modStr, { isCrosslinkRef: true });
+          tag = createTag(modStr, modStart, modEnd, { isCrosslinkRef: true });
         }
         else if (ProFormaParser.BRANCH_REF_PATTERN.test(modStr)) {
-          mod = ProFormaParser._createModification(modStr, { isBranchRef: true });
+          tag = createTag(modStr, modStart, modEnd, { isBranchRef: true });
         }
         else {
           const crosslinkMatch = ProFormaParser.CROSSLINK_PATTERN.exec(modStr);
@@ -367,40 +932,81 @@ export class ProFormaParser {
 
           if (crosslinkMatch) {
             const [, modBase, crosslinkId] = crosslinkMatch;
-            mod = ProFormaParser._createModification(modStr, { crosslinkId });
+            tag = createTag(modStr, modStart, modEnd, { crosslinkId });
           }
           else if (branchMatch) {
             const modBase = branchMatch[1];
-            mod = ProFormaParser._createModification(modStr, { isBranch: true });
+            tag = createTag(modStr, modStart, modEnd, { isBranch: true });
           }
           else {
-            mod = ProFormaParser._createModification(modStr);
+            tag = createTag(modStr, modStart, modEnd);
           }
         }
 
-        if (baseSequence) {
-          getModsAtPosition(baseSequence.length - 1).push(mod);
-        }
+        attachTag(tag);
 
         i = j + 1;
       }
       else if (char === "{") {
         const j = proformaStr.indexOf("}", i);
         if (j === -1) {
-          throw new Error(`Unclosed curly brace at position ${i}`);
+          report(new ProFormaSyntaxError(
+            "Unclosed curly brace",
+            ProFormaSyntaxError.UNCLOSED_BRACE,
+            offset + i,
+            offset + proformaStr.length,
+            "}"
+          ));
+          break;
         }
 
-        const modStr = proformaStr.substring(i + 1, j);
-        const mod = ProFormaParser._createModification(modStr, { isAmbiguous: true });
-
-        if (baseSequence) {
-          getModsAtPosition(baseSequence.length - 1).push(mod);
+        if (!residues.length) {
+          report(new ProFormaSyntaxError(
+            "Ambiguous modification must follow an amino acid",
+            ProFormaSyntaxError.MISPLACED_MODIFICATION,
+            offset + i,
+            offset + j + 1,
+            "amino acid"
+          ));
+        } else {
+          const modStr = proformaStr.substring(i + 1, j);
+          attachTag(createTag(modStr, offset + i, offset + j + 1, { isAmbiguous: true }));
         }
 
         i = j + 1;
       }
+      else if (char === "]" || char === "}") {
+        report(new ProFormaSyntaxError(
+          `Unmatched closing '${char}'`,
+          char === "]" ? ProFormaSyntaxError.UNMATCHED_BRACKET : ProFormaSyntaxError.UNMATCHED_BRACE,
+          offset + i
+        ));
+        i += 1;
+      }
+      else if (!(char in AA_mass)) {
+        if (/[A-Za-z]/.test(char)) {
+          report(new ProFormaSyntaxError(
+            `Unknown amino acid '${char}'`,
+            ProFormaSyntaxError.UNKNOWN_RESIDUE,
+            offset + i,
+            offset + i + 1,
+            "amino acid"
+          ));
+          // Keep residue numbering intact by standing in an unknown residue
+          addResidue("X", offset + i);
+        } else {
+          report(new ProFormaSyntaxError(
+            char === "-" ? "Unexpected '-' outside of a terminal modification" : `Unexpected character '${char}'`,
+            ProFormaSyntaxError.UNEXPECTED_CHARACTER,
+            offset + i,
+            offset + i + 1,
+            "amino acid"
+          ));
+        }
+        i += 1;
+      }
       else {
-        baseSequence += char;
+        addResidue(char, offset + i);
         const isGap = (
           char === "X" &&
           i + 1 < proformaStr.length &&
@@ -413,7 +1019,136 @@ export class ProFormaParser {
       }
     }
 
-    return [baseSequence, modifications, globalMods, sequenceAmbiguities, [chargeInfo[1], chargeInfo[2]]];
+    if (rangeStack.length) {
+      const openPos = rangeStack[rangeStack.length - 1][1];
+      report(new ProFormaSyntaxError(
+        "Unclosed range parenthesis",
+        ProFormaSyntaxError.UNCLOSED_PARENTHESIS,
+        openPos,
+        offset + proformaStr.length,
+        ")"
+      ));
+    }
+
+    if (!residues.length) {
+      report(new ProFormaSyntaxError(
+        "ProForma string contains no amino acids",
+        ProFormaSyntaxError.EMPTY_SEQUENCE,
+        offset,
+        offset + proformaStr.length,
+        "amino acid"
+      ));
+    }
+
+    // The charge state is split off before the residues are read, so order by position
+    diagnostics.sort((a, b) => a.start - b.start);
+
+    return node;
+  }
+
+  /**
+   * Find the bracket closing the one opened at `start`, honouring nesting.
+   *
+   * @returns The index of the closing bracket, or -1 if it is never closed
+   */
+  private static _findClosingBracket(str: string, start: number, open: string = "[", close: string = "]"): number {
+    let depth = 0;
+    for (let j = start; j < str.length; j++) {
+      if (str[j] === open) {
+        depth += 1;
+      } else if (str[j] === close) {
+        depth -= 1;
+        if (depth === 0) {
+          return j;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Split a terminal modification block such as `[Acetyl][Methyl]` into bracket spans.
+   *
+   * @param part - The terminal block without the separating hyphen
+   * @param offset - Offset of the block within the original input, for error reporting
+   * @param terminus - "N" or "C", used in error messages
+   * @param report - Receives syntax errors; characters outside brackets are skipped
+   * @returns Start and end indices (of the brackets) of each modification within `part`
+   */
+  private static _splitTerminalMods(
+    part: string,
+    offset: number,
+    terminus: string,
+    report: ErrorReporter = throwError
+  ): [number, number][] {
+    const spans: [number, number][] = [];
+    if (!part) {
+      report(new ProFormaSyntaxError(
+        `Missing ${terminus}-terminal modification after '-'`,
+        ProFormaSyntaxError.INVALID_TERMINAL,
+        offset - 1,
+        offset,
+        "["
+      ));
+      return spans;
+    }
+
+    let currentPos = 0;
+    while (currentPos < part.length) {
+      if (part[currentPos] !== '[') {
+        report(new ProFormaSyntaxError(
+          `Unexpected character '${part[currentPos]}' in ${terminus}-terminal modifications`,
+          ProFormaSyntaxError.INVALID_TERMINAL,
+          offset + currentPos,
+          offset + currentPos + 1,
+          terminus === "N" ? "-" : "["
+        ));
+        currentPos++;
+        continue;
+      }
+
+      const endPos = ProFormaParser._findClosingBracket(part, currentPos);
+      if (endPos === -1) {
+        report(new ProFormaSyntaxError(
+          "Unclosed square bracket",
+          ProFormaSyntaxError.UNCLOSED_BRACKET,
+          offset + currentPos,
+          offset + part.length,
+          "]"
+        ));
+        break;
+      }
+      spans.push([currentPos, endPos]);
+      currentPos = endPos + 1;
+    }
+    return spans;
+  }
+
+  /**
+   * Report formula and glycan tags that are syntactically invalid as warnings.
+   */
+  private static _checkModificationValue(mod: Modification, start: number, end: number, report: ErrorReporter): void {
+    for (const pv of mod.modValue.pipeValues) {
+      // A formula or glycan with an ambiguity group is typed by the group, so its source is checked too
+      const source = pv.source?.toUpperCase();
+      if ((pv.type === "formula" || source === "FORMULA") && !pv.isValidFormula) {
+        report(new ProFormaSyntaxError(
+          `Invalid chemical formula '${pv.value}'`,
+          ProFormaSyntaxError.INVALID_FORMULA,
+          start,
+          end,
+          "chemical formula"
+        ), "warning");
+      } else if ((pv.type === "glycan" || source === "GLYCAN") && !pv.isValidGlycan) {
+        report(new ProFormaSyntaxError(
+          `Invalid glycan composition '${pv.value}'`,
+          ProFormaSyntaxError.INVALID_GLYCAN,
+          start,
+          end,
+          "monosaccharide composition"
+        ), "warning");
+      }
+    }
   }
 
   static _createModification(
@@ -567,7 +1302,7 @@ export class ProFormaParser {
           "ambiguous",
           false,
           0,
-          0.0,
+          null,
           false,
           undefined,
           false,
@@ -594,7 +1329,7 @@ export class ProFormaParser {
           "ambiguous",
           false,
           0,
-          0.0,
+          null,
           false,
           undefined,
           false,
@@ -620,7 +1355,7 @@ export class ProFormaParser {
       modType,
       isLabile,
       0,
-      0.0,
+      null,
       false,
       crosslinkId,
       isCrosslinkRef,
@@ -636,7 +1371,67 @@ export class ProFormaParser {
     );
   }
 
-  static parseChargeInfo(proformaStr: string): [string, number | null, string | null] {
+  /**
+   * Parse the comma separated adducts of an ionic species such as `+2Na+,-H+`.
+   *
+   * A total adduct charge that differs from the charge state is reported as a warning.
+   *
+   * @param ionicSpecies - The text between the brackets following the charge state
+   * @param charge - The declared charge state
+   * @param offset - Offset of `ionicSpecies` within the original input, for error reporting
+   * @param report - Receives syntax errors, throwing them by default
+   */
+  static parseIonicSpecies(
+    ionicSpecies: string,
+    charge: number,
+    offset: number = 0,
+    report: ErrorReporter = throwError
+  ): Adduct[] {
+    const adducts: Adduct[] = [];
+    let adductStart = 0;
+
+    for (const adductStr of ionicSpecies.split(",")) {
+      const adduct = Adduct.parse(adductStr.trim());
+      if (adduct) {
+        adducts.push(adduct);
+      } else {
+        report(new ProFormaSyntaxError(
+          `Invalid ionic species '${adductStr}'`,
+          ProFormaSyntaxError.INVALID_IONIC_SPECIES,
+          offset + adductStart,
+          offset + adductStart + adductStr.length,
+          "adduct such as +Na+"
+        ));
+      }
+      adductStart += adductStr.length + 1;
+    }
+
+    const totalCharge = adducts.reduce((sum, adduct) => sum + adduct.totalCharge, 0);
+    if (adducts.length && totalCharge !== charge) {
+      report(new ProFormaSyntaxError(
+        `Ionic species carry a charge of ${totalCharge} but the charge state is ${charge}`,
+        ProFormaSyntaxError.CHARGE_MISMATCH,
+        offset,
+        offset + ionicSpecies.length,
+        `ionic species with a total charge of ${charge}`
+      ), "warning");
+    }
+    return adducts;
+  }
+
+  /**
+   * Split the charge state and optional ionic species off the end of a peptidoform.
+   *
+   * @param proformaStr - The peptidoform string, possibly ending in `/charge[species]`
+   * @param offset - Offset of `proformaStr` within the original input, for error reporting
+   * @param report - Receives syntax errors, throwing them by default
+   * @returns The string without charge information, the charge and the raw ionic species
+   */
+  static parseChargeInfo(
+    proformaStr: string,
+    offset: number = 0,
+    report: ErrorReporter = throwError
+  ): [string, number | null, string | null] {
     if (!proformaStr.includes('/')) {
       return [proformaStr, null, null];
     }
@@ -647,10 +1442,11 @@ export class ProFormaParser {
     // Find the charge separator (/) that's not inside brackets
     for (let i = 0; i < proformaStr.length; i++) {
       const char = proformaStr[i];
-      if (char === '[' || char === '(') {
+      if (char === '[' || char === '(' || char === '{') {
         bracketLevel++;
-      } else if (char === ']' || char === ')') {
-        bracketLevel--;
+      } else if (char === ']' || char === ')' || char === '}') {
+        // Unmatched closing brackets are reported later and must not hide the charge
+        bracketLevel = Math.max(0, bracketLevel - 1);
       } else if (char === '/' && bracketLevel === 0) {
         chargePos = i;
         break;
@@ -663,6 +1459,7 @@ export class ProFormaParser {
 
     const beforeCharge = proformaStr.substring(0, chargePos);
     const afterCharge = proformaStr.substring(chargePos + 1);
+    const afterOffset = offset + chargePos + 1;
 
     let i = 0;
     let sign = 1;
@@ -680,7 +1477,14 @@ export class ProFormaParser {
     }
 
     if (startDigit === i) { // No digits found
-      return [proformaStr, null, null];
+      report(new ProFormaSyntaxError(
+        "Charge state must be an integer",
+        ProFormaSyntaxError.INVALID_CHARGE,
+        offset + chargePos,
+        afterOffset + afterCharge.length,
+        "integer charge"
+      ));
+      return [beforeCharge, null, null];
     }
 
     const chargeValue = parseInt(afterCharge.substring(startDigit, i)) * sign;
@@ -691,34 +1495,33 @@ export class ProFormaParser {
 
     if (remaining && remaining[0] === '[') {
       // Find the matching closing bracket
-      let bracketLevel = 1;
-      let endPos = 0;
-
-      for (let j = 1; j < remaining.length; j++) {
-        if (remaining[j] === '[') {
-          bracketLevel++;
-        } else if (remaining[j] === ']') {
-          bracketLevel--;
-        }
-
-        if (bracketLevel === 0) {
-          endPos = j;
-          break;
-        }
+      const endPos = ProFormaParser._findClosingBracket(remaining, 0);
+      if (endPos === -1) {
+        report(new ProFormaSyntaxError(
+          "Unclosed ionic species bracket",
+          ProFormaSyntaxError.UNCLOSED_BRACKET,
+          afterOffset + i,
+          afterOffset + afterCharge.length,
+          "]"
+        ));
+        return [beforeCharge, chargeValue, remaining.substring(1)];
       }
 
-      if (endPos > 0) {
-        ionicSpecies = remaining.substring(1, endPos);
-        remaining = remaining.substring(endPos + 1);
-      }
+      ionicSpecies = remaining.substring(1, endPos);
+      i += endPos + 1;
+      remaining = remaining.substring(endPos + 1);
     }
 
-    // Reconstruct the string without charge information
-    let resultStr = beforeCharge;
     if (remaining) {
-      resultStr += remaining;
+      report(new ProFormaSyntaxError(
+        `Unexpected '${remaining[0]}' after charge state`,
+        ProFormaSyntaxError.UNEXPECTED_CHARACTER,
+        afterOffset + i,
+        afterOffset + afterCharge.length,
+        "end of peptidoform"
+      ));
     }
 
-    return [resultStr, chargeValue, ionicSpecies];
+    return [beforeCharge, chargeValue, ionicSpecies];
   }
-}
\ No newline at end of file
+}
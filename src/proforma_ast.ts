@@ -0,0 +1,231 @@
+/**
+ * Typed abstract syntax tree for ProForma strings.
+ *
+ * The tree is produced by `ProFormaParser.parseDocument` / `ProFormaParser.parsePeptidoform`
+ * and consumed by `Sequence.fromAst`. Every node records the span it was parsed from
+ * (`start` inclusive, `end` exclusive) as offsets into the original input string.
+ * Nodes are plain objects and may be inspected, rewritten or built by hand before being
+ * turned into a `Sequence`.
+ */
+
+import { GlobalModification, Modification } from './modification';
+import { Adduct, ProFormaDiagnostic } from './proforma';
+
+export interface NodeSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single modification tag, the content of one `[...]` or `{...}` enclosure.
+ */
+export interface TagNode extends NodeSpan {
+  kind: "tag";
+  /** Text between the enclosing brackets */
+  raw: string;
+  enclosure: "square" | "curly";
+  modification: Modification;
+}
+
+/**
+ * A name given to a peptidoform `(>name)`, peptidoform ion `(>>name)` or compound
+ * peptidoform ion `(>>>name)`.
+ */
+export interface NameNode extends NodeSpan {
+  kind: "name";
+  level: "peptidoform" | "ion" | "compound";
+  /** Text of the name without the enclosing `(>` and `)` */
+  value: string;
+}
+
+/**
+ * A global modification such as `<13C>` or `<[Carbamidomethyl]@C>`.
+ */
+export interface GlobalNode extends NodeSpan {
+  kind: "global";
+  /** Text between the angle brackets */
+  raw: string;
+  modification: GlobalModification;
+}
+
+/**
+ * A modification of unknown position, e.g. `[Phospho]^2` in `[Phospho]^2?PEPTIDE`.
+ */
+export interface UnknownPositionNode extends NodeSpan {
+  kind: "unknown_position";
+  tag: TagNode;
+  count: number;
+}
+
+/**
+ * A labile modification such as `{Glycan:Hex}` preceding the sequence.
+ */
+export interface LabileNode extends NodeSpan {
+  kind: "labile";
+  tag: TagNode;
+}
+
+/**
+ * The N- or C-terminal modifications of a peptidoform, including the separating hyphen.
+ */
+export interface TerminalNode extends NodeSpan {
+  kind: "n_term" | "c_term";
+  tags: TagNode[];
+}
+
+/**
+ * An amino acid and the tags placed directly after it.
+ */
+export interface ResidueNode extends NodeSpan {
+  kind: "residue";
+  value: string;
+  /** Zero-based position of the residue within the peptidoform */
+  index: number;
+  tags: TagNode[];
+}
+
+/**
+ * A modification applied to a range of residues, e.g. `(ESFRMS)[+19.0523]`.
+ */
+export interface RangeNode extends NodeSpan {
+  kind: "range";
+  /** Index of the first residue in the range */
+  startIndex: number;
+  /** Index of the last residue in the range (inclusive) */
+  endIndex: number;
+  tags: TagNode[];
+}
+
+/**
+ * A sequence ambiguity such as `(?DQ)`.
+ */
+export interface SequenceAmbiguityNode extends NodeSpan {
+  kind: "sequence_ambiguity";
+  value: string;
+  index: number;
+}
+
+/**
+ * The charge state and optional ionic species of a peptidoform, e.g. `/2[+Na+]`.
+ */
+export interface ChargeNode extends NodeSpan {
+  kind: "charge";
+  charge: number;
+  /** Raw text of the ionic species */
+  ionicSpecies: string | null;
+  adducts: Adduct[];
+}
+
+/**
+ * A single peptidoform with all of its modifications.
+ */
+export interface PeptidoformNode extends NodeSpan {
+  kind: "peptidoform";
+  names: NameNode[];
+  globals: GlobalNode[];
+  unknownPositionMods: UnknownPositionNode[];
+  labileMods: LabileNode[];
+  nTerm: TerminalNode | null;
+  residues: ResidueNode[];
+  ranges: RangeNode[];
+  sequenceAmbiguities: SequenceAmbiguityNode[];
+  cTerm: TerminalNode | null;
+  charge: ChargeNode | null;
+  diagnostics: ProFormaDiagnostic[];
+}
+
+/**
+ * One `//`-separated chain, holding the `+`-separated peptidoforms of a chimeric spectrum.
+ */
+export interface ChainNode extends NodeSpan {
+  kind: "chain";
+  peptidoforms: PeptidoformNode[];
+}
+
+/**
+ * The root of a parsed ProForma string.
+ */
+export interface ProFormaDocument extends NodeSpan {
+  kind: "document";
+  chains: ChainNode[];
+  diagnostics: ProFormaDiagnostic[];
+}
+
+export type ProFormaNode =
+  | ProFormaDocument
+  | ChainNode
+  | PeptidoformNode
+  | NameNode
+  | GlobalNode
+  | UnknownPositionNode
+  | LabileNode
+  | TerminalNode
+  | ResidueNode
+  | RangeNode
+  | SequenceAmbiguityNode
+  | ChargeNode
+  | TagNode;
+
+/**
+ * Get the direct children of a node in source order.
+ */
+export function childNodes(node: ProFormaNode): ProFormaNode[] {
+  switch (node.kind) {
+    case "document":
+      return node.chains;
+    case "chain":
+      return node.peptidoforms;
+    case "peptidoform": {
+      const children: ProFormaNode[] = [
+        ...node.names,
+        ...node.globals,
+        ...node.unknownPositionMods,
+        ...node.labileMods
+      ];
+      if (node.nTerm) {
+        children.push(node.nTerm);
+      }
+      // Interleave residues, ranges and ambiguities by their position in the input
+      children.push(
+        ...[...node.sequenceAmbiguities, ...node.residues, ...node.ranges].sort((a, b) => a.start - b.start)
+      );
+      if (node.cTerm) {
+        children.push(node.cTerm);
+      }
+      if (node.charge) {
+        children.push(node.charge);
+      }
+      return children;
+    }
+    case "unknown_position":
+    case "labile":
+      return [node.tag];
+    case "n_term":
+    case "c_term":
+    case "residue":
+    case "range":
+      return node.tags;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Walk a ProForma tree depth first.
+ *
+ * @param node - The node to start from
+ * @param visitor - Called for every node with its parent; returning false skips the node's children
+ * @param parent - Parent of `node`, if any
+ */
+export function walkProForma(
+  node: ProFormaNode,
+  visitor: (node: ProFormaNode, parent: ProFormaNode | null) => void | boolean,
+  parent: ProFormaNode | null = null
+): void {
+  if (visitor(node, parent) === false) {
+    return;
+  }
+  for (const child of childNodes(node)) {
+    walkProForma(child, visitor, node);
+  }
+}
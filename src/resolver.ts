@@ -0,0 +1,220 @@
+/**
+ * Resolution of named modifications against controlled vocabularies.
+ */
+
+import { Composition } from './composition';
+import { GlycanComposition } from './glycan';
+
+/**
+ * A residue or terminus a modification may be placed on.
+ */
+export interface ModificationSpecificity {
+  /** One letter residue code, `N-term` or `C-term` */
+  site: string;
+  /** Where the site must be, e.g. `Anywhere`, `Any N-term` or `Protein C-term` */
+  position: string;
+  /** Kind of modification at this site, e.g. `Post-translational`, when known */
+  classification: string | null;
+  /** Compositions the modification can lose on fragmentation at this site */
+  neutralLosses?: Composition[];
+}
+
+/**
+ * A modification as defined by a controlled vocabulary.
+ */
+export interface ModificationDefinition {
+  /** Vocabulary the definition comes from, e.g. `UNIMOD` */
+  source: string;
+  /** Accession including its prefix, e.g. `UNIMOD:21` */
+  accession: string;
+  name: string;
+  synonyms: string[];
+  /** Monoisotopic mass shift, or null when the vocabulary does not give one */
+  monoisotopicMass: number | null;
+  /** Average mass shift, or null when the vocabulary does not give one */
+  averageMass: number | null;
+  /** Elemental composition, or null when the vocabulary does not give one */
+  composition: Composition | null;
+  specificities: ModificationSpecificity[];
+  /** Accessions of the same modification in other vocabularies, e.g. `RESID:AA0037` */
+  xrefs: string[];
+  /** Monosaccharide composition, for glycans */
+  glycan?: GlycanComposition;
+}
+
+// Source prefixes and the accession prefix of their vocabulary
+const ACCESSION_PREFIXES: Record<string, string> = {
+  "U": "UNIMOD",
+  "UNIMOD": "UNIMOD",
+  "M": "MOD",
+  "MOD": "MOD",
+  "PSI-MOD": "MOD",
+  "R": "RESID",
+  "RESID": "RESID",
+  "X": "XLMOD",
+  "XLMOD": "XLMOD",
+  "XL-MOD": "XLMOD",
+  "G": "GNO",
+  "GNO": "GNO"
+};
+
+/**
+ * Normalize a reference to a modification vocabulary, e.g. `Unimod:21#S` to `UNIMOD:21`.
+ *
+ * @returns The accession with its canonical prefix, or null when the reference is not to a
+ *          modification vocabulary
+ */
+export function normalizeAccession(reference: string): string | null {
+  const match = /^([A-Za-z-]+):([A-Za-z0-9]+)/.exec(reference.trim());
+  const prefix = match ? ACCESSION_PREFIXES[match[1].toUpperCase()] : undefined;
+  return prefix ? `${prefix}:${match![2]}` : null;
+}
+
+/**
+ * Looks up the definition of a named modification.
+ */
+export interface ModificationResolver {
+  /**
+   * Resolve a modification name, accession number or synonym.
+   *
+   * @param name - The value without its source prefix, e.g. `Oxidation` or `35`
+   * @param source - The source prefix as written, e.g. `U` or `UNIMOD`, or null when the
+   *                 value has none
+   * @returns The definition, or null when this resolver does not know the modification
+   */
+  resolve(name: string, source: string | null): ModificationDefinition | null;
+}
+
+/**
+ * Resolver backed by the definitions of a single vocabulary, indexed by accession number,
+ * name and synonym. Names and synonyms are matched case-insensitively when there is no
+ * exact match.
+ */
+export class VocabularyResolver implements ModificationResolver {
+  private readonly _byAccession: Map<string, ModificationDefinition> = new Map();
+  private readonly _byName: Map<string, ModificationDefinition> = new Map();
+  private readonly _byLowerName: Map<string, ModificationDefinition> = new Map();
+  private readonly _prefixes: Set<string>;
+
+  /**
+   * @param definitions - The definitions of the vocabulary
+   * @param prefixes - Source prefixes this vocabulary answers to, e.g. `U` and `UNIMOD`
+   * @param resolveUnprefixed - Whether to resolve values written without a source prefix
+   */
+  constructor(
+    definitions: ModificationDefinition[],
+    prefixes: string[],
+    readonly resolveUnprefixed: boolean = false
+  ) {
+    this._prefixes = new Set(prefixes.map(prefix => prefix.toUpperCase()));
+    for (const definition of definitions) {
+      const accession = VocabularyResolver._accessionNumber(definition.accession);
+      if (!this._byAccession.has(accession)) {
+        this._byAccession.set(accession, definition);
+      }
+      for (const name of [definition.name, ...definition.synonyms]) {
+        if (!this._byName.has(name)) {
+          this._byName.set(name, definition);
+        }
+        if (!this._byLowerName.has(name.toLowerCase())) {
+          this._byLowerName.set(name.toLowerCase(), definition);
+        }
+      }
+    }
+  }
+
+  get definitions(): ModificationDefinition[] {
+    return [...new Set(this._byAccession.values())];
+  }
+
+  resolve(name: string, source: string | null): ModificationDefinition | null {
+    if (source === null ? !this.resolveUnprefixed : !this._prefixes.has(source.toUpperCase())) {
+      return null;
+    }
+    return this._byAccession.get(VocabularyResolver._accessionNumber(name))
+      ?? this._byName.get(name)
+      ?? this._byLowerName.get(name.toLowerCase())
+      ?? null;
+  }
+
+  /**
+   * Strip the prefix and leading zeros of an accession, so that `UNIMOD:35`, `35` and
+   * `00035` are looked up alike.
+   */
+  private static _accessionNumber(accession: string): string {
+    const value = accession.includes(":") ? accession.substring(accession.indexOf(":") + 1) : accession;
+    return /^\d+$/.test(value) ? String(parseInt(value)) : value;
+  }
+}
+
+/**
+ * Resolver that mixes vocabularies: each value is resolved by the first resolver that knows
+ * it, and a definition without a mass takes the mass and composition of a cross-referenced
+ * definition from another vocabulary.
+ */
+export class CompositeResolver implements ModificationResolver {
+  /**
+   * @param resolvers - Resolvers in order of precedence. Put Unimod first so that values
+   *                    without a source prefix resolve as the ProForma specification prescribes.
+   */
+  constructor(readonly resolvers: ModificationResolver[]) {}
+
+  resolve(name: string, source: string | null): ModificationDefinition | null {
+    for (const resolver of this.resolvers) {
+      const definition = resolver.resolve(name, source);
+      if (definition) {
+        return definition.monoisotopicMass === null ? this._withCrossReferencedMass(definition) : definition;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the definitions of the same modification in other vocabularies, following the
+   * cross-references of the definition and the definitions referring back to it.
+   *
+   * @param definition - The definition to look up
+   * @param vocabulary - Restrict the result to one vocabulary, given by any of its source
+   *                     prefixes, e.g. `U` or `UNIMOD`
+   */
+  crossReferences(definition: ModificationDefinition, vocabulary?: string): ModificationDefinition[] {
+    const target = vocabulary ? ACCESSION_PREFIXES[vocabulary.toUpperCase()] ?? vocabulary.toUpperCase() : null;
+    const found = new Map<string, ModificationDefinition>();
+
+    for (const xref of definition.xrefs) {
+      const [prefix, accession] = xref.split(":");
+      if (target && prefix !== target) {
+        continue;
+      }
+      for (const resolver of this.resolvers) {
+        const referenced = resolver.resolve(accession, prefix);
+        if (referenced) {
+          found.set(referenced.accession, referenced);
+          break;
+        }
+      }
+    }
+    for (const resolver of this.resolvers) {
+      if (!(resolver instanceof VocabularyResolver)) {
+        continue;
+      }
+      for (const other of resolver.definitions) {
+        if (other.xrefs.includes(definition.accession) && (!target || other.accession.startsWith(`${target}:`))) {
+          found.set(other.accession, other);
+        }
+      }
+    }
+    found.delete(definition.accession);
+    return [...found.values()];
+  }
+
+  private _withCrossReferencedMass(definition: ModificationDefinition): ModificationDefinition {
+    const referenced = this.crossReferences(definition).find(other => other.monoisotopicMass !== null);
+    return referenced ? {
+      ...definition,
+      monoisotopicMass: referenced.monoisotopicMass,
+      averageMass: referenced.averageMass,
+      composition: definition.composition ?? referenced.composition
+    } : definition;
+  }
+}
@@ -21,14 +21,62 @@ export const AA_mass: {[key: string]: number} = {
   "P": 97.052764,
   "S": 87.032028,
   "T": 101.047679,
-  "U": 255.15829,
+  "U": 150.953636,
   "W": 186.079313,
   "Y": 163.06332,
   "V": 99.068414,
   "X": 0,
-  "O": 150.03794,
+  "O": 237.147727,
 }
 
+// Average residue masses, from the compositions in AA_composition and the weights in element_average_mass
+export const AA_average_mass: {[key: string]: number} = {
+  "A": 71.0779,
+  "R": 156.1857,
+  "N": 114.1026,
+  "D": 115.0874,
+  "C": 103.1429,
+  "E": 129.1140,
+  "Q": 128.1292,
+  "G": 57.0513,
+  "H": 137.1393,
+  "I": 113.1576,
+  "L": 113.1576,
+  "K": 128.1723,
+  "M": 131.1961,
+  "F": 147.1739,
+  "P": 97.1152,
+  "S": 87.0773,
+  "T": 101.1039,
+  "U": 150.0379,
+  "W": 186.2099,
+  "Y": 163.1733,
+  "V": 99.1311,
+  "X": 0,
+  "O": 237.2982,
+}
+
+// Elemental composition added to the residues of a fragment for each ion type. The neutral
+// b ion is the sum of its residues; a, b and c ions hold the N-terminus and x, y and z ions
+// the C-terminus. z+1 is the z-dot radical ion and c-1 the c ion lacking a hydrogen.
+// Internal ions hold neither terminus, and an immonium ion is the internal a ion of a residue.
+export const ion_type_composition: {[key: string]: {[element: string]: number}} = {
+  "a": {"C": -1, "O": -1},
+  "b": {},
+  "c": {"N": 1, "H": 3},
+  "c-1": {"N": 1, "H": 2},
+  "x": {"C": 1, "O": 2},
+  "y": {"H": 2, "O": 1},
+  "z": {"H": -1, "N": -1, "O": 1},
+  "z+1": {"N": -1, "O": 1},
+  "internal-a": {"C": -1, "O": -1},
+  "internal-b": {},
+  "immonium": {"C": -1, "O": -1},
+}
+export const n_terminal_ion_types = ["a", "b", "c", "c-1"]
+export const c_terminal_ion_types = ["x", "y", "z", "z+1"]
+export const internal_ion_types = ["internal-a", "internal-b"]
+
 export const glycan_block_dict: {[key: string]: number} = {
   "HexNAc": 203.079372520,
   "Hex": 162.0528234185,
@@ -38,6 +86,28 @@ export const glycan_block_dict: {[key: string]: number} = {
   "Phospho": 79.9663305228,
   "Pent": 132.0422587348,
   "NeuGc": 307.0903311261,
+  "dHex": 146.057908799,
+  "HexS": 242.009638277,
+  "HexP": 242.019153939,
+  "HexNAcS": 283.036187378,
+  "Pen": 132.042258735,
+}
+
+// Elemental composition of each glycan block in glycan_block_dict, as the residue within a glycan
+export const glycan_block_composition: {[key: string]: {[element: string]: number}} = {
+  "HexNAc": {"C": 8, "H": 13, "N": 1, "O": 5},
+  "Hex": {"C": 6, "H": 10, "O": 5},
+  "Fuc": {"C": 6, "H": 10, "O": 4},
+  "NeuAc": {"C": 11, "H": 17, "N": 1, "O": 8},
+  "Sulfo": {"O": 3, "S": 1},
+  "Phospho": {"H": 1, "O": 3, "P": 1},
+  "Pent": {"C": 5, "H": 8, "O": 4},
+  "NeuGc": {"C": 11, "H": 17, "N": 1, "O": 9},
+  "dHex": {"C": 6, "H": 10, "O": 4},
+  "HexS": {"C": 6, "H": 10, "O": 8, "S": 1},
+  "HexP": {"C": 6, "H": 11, "O": 8, "P": 1},
+  "HexNAcS": {"C": 8, "H": 13, "N": 1, "O": 8, "S": 1},
+  "Pen": {"C": 5, "H": 8, "O": 4},
 }
 export const monosaccharides = [
   "Hex",
@@ -50,4 +120,243 @@ export const monosaccharides = [
   "NeuGc",
   "Pen",
   "Fuc",
-]
\ No newline at end of file
+]
+export const electron: number = 0.000548579909
+
+// Monoisotopic masses of the most abundant isotope of each element
+export const element_mass: {[key: string]: number} = {
+  "H": 1.00782503207,
+  "D": 2.0141017778,
+  "Li": 7.01600455,
+  "B": 11.0093054,
+  "C": 12.0,
+  "N": 14.0030740048,
+  "O": 15.99491461956,
+  "F": 18.99840322,
+  "Na": 22.9897692809,
+  "Mg": 23.9850417,
+  "Al": 26.98153863,
+  "Si": 27.9769265325,
+  "P": 30.97376163,
+  "S": 31.972071,
+  "Cl": 34.96885268,
+  "K": 38.96370668,
+  "Ca": 39.96259098,
+  "Mn": 54.9380451,
+  "Fe": 55.9349375,
+  "Co": 58.933195,
+  "Ni": 57.9353429,
+  "Cu": 62.9295975,
+  "Zn": 63.9291422,
+  "As": 74.9215965,
+  "Se": 79.9165213,
+  "Br": 78.9183371,
+  "Rb": 84.911789738,
+  "Sr": 87.9056121,
+  "Mo": 97.9054082,
+  "Ag": 106.905097,
+  "Cd": 113.9033585,
+  "I": 126.904473,
+  "Cs": 132.905451933,
+  "Ba": 137.9052472,
+  "Pt": 194.9647911,
+  "Au": 196.9665687,
+  "Hg": 201.970643,
+  "Ti": 47.9479463,
+  "V": 50.9439595,
+  "Cr": 51.9405075,
+  "Ru": 101.9043493,
+  "Pd": 105.903486,
+  "In": 114.903878,
+  "Sn": 119.9021947,
+  "La": 138.9063533,
+  "Ce": 139.9054387,
+  "Pr": 140.9076528,
+  "Nd": 141.9077233,
+  "Sm": 151.9197324,
+  "Eu": 152.9212303,
+  "Gd": 157.9241039,
+  "Tb": 158.9253468,
+  "Dy": 163.9291748,
+  "Ho": 164.9303221,
+  "Er": 165.9302931,
+  "Tm": 168.9342133,
+  "Yb": 173.9388621,
+  "Lu": 174.9407718,
+  "Tl": 204.9744275,
+  "Pb": 207.9766521,
+  "Bi": 208.9803987,
+}
+
+// Standard atomic weights for average masses, covering the same elements as element_mass
+export const element_average_mass: {[key: string]: number} = {
+  "H": 1.00794,
+  "D": 2.0141017778,
+  "Li": 6.941,
+  "B": 10.811,
+  "C": 12.0107,
+  "N": 14.0067,
+  "O": 15.9994,
+  "F": 18.9984032,
+  "Na": 22.98976928,
+  "Mg": 24.305,
+  "Al": 26.9815386,
+  "Si": 28.0855,
+  "P": 30.973762,
+  "S": 32.065,
+  "Cl": 35.453,
+  "K": 39.0983,
+  "Ca": 40.078,
+  "Mn": 54.938045,
+  "Fe": 55.845,
+  "Co": 58.933195,
+  "Ni": 58.6934,
+  "Cu": 63.546,
+  "Zn": 65.38,
+  "As": 74.9216,
+  "Se": 78.96,
+  "Br": 79.904,
+  "Rb": 85.4678,
+  "Sr": 87.62,
+  "Mo": 95.96,
+  "Ag": 107.8682,
+  "Cd": 112.411,
+  "I": 126.90447,
+  "Cs": 132.9054519,
+  "Ba": 137.327,
+  "Pt": 195.084,
+  "Au": 196.966569,
+  "Hg": 200.59,
+  "Ti": 47.867,
+  "V": 50.9415,
+  "Cr": 51.9961,
+  "Ru": 101.07,
+  "Pd": 106.42,
+  "In": 114.818,
+  "Sn": 118.71,
+  "La": 138.90547,
+  "Ce": 140.116,
+  "Pr": 140.90765,
+  "Nd": 144.242,
+  "Sm": 150.36,
+  "Eu": 151.964,
+  "Gd": 157.25,
+  "Tb": 158.92535,
+  "Dy": 162.5,
+  "Ho": 164.93032,
+  "Er": 167.259,
+  "Tm": 168.93421,
+  "Yb": 173.054,
+  "Lu": 174.9668,
+  "Tl": 204.3833,
+  "Pb": 207.2,
+  "Bi": 208.9804,
+}
+
+// Elemental composition of each residue in AA_mass (the amino acid minus water). X is a gap of unknown composition.
+export const AA_composition: {[key: string]: {[element: string]: number}} = {
+  "A": {"C": 3, "H": 5, "N": 1, "O": 1},
+  "R": {"C": 6, "H": 12, "N": 4, "O": 1},
+  "N": {"C": 4, "H": 6, "N": 2, "O": 2},
+  "D": {"C": 4, "H": 5, "N": 1, "O": 3},
+  "C": {"C": 3, "H": 5, "N": 1, "O": 1, "S": 1},
+  "E": {"C": 5, "H": 7, "N": 1, "O": 3},
+  "Q": {"C": 5, "H": 8, "N": 2, "O": 2},
+  "G": {"C": 2, "H": 3, "N": 1, "O": 1},
+  "H": {"C": 6, "H": 7, "N": 3, "O": 1},
+  "I": {"C": 6, "H": 11, "N": 1, "O": 1},
+  "L": {"C": 6, "H": 11, "N": 1, "O": 1},
+  "K": {"C": 6, "H": 12, "N": 2, "O": 1},
+  "M": {"C": 5, "H": 9, "N": 1, "O": 1, "S": 1},
+  "F": {"C": 9, "H": 9, "N": 1, "O": 1},
+  "P": {"C": 5, "H": 7, "N": 1, "O": 1},
+  "S": {"C": 3, "H": 5, "N": 1, "O": 2},
+  "T": {"C": 4, "H": 7, "N": 1, "O": 2},
+  "U": {"C": 3, "H": 5, "N": 1, "O": 1, "Se": 1},
+  "W": {"C": 11, "H": 10, "N": 2, "O": 1},
+  "Y": {"C": 9, "H": 9, "N": 1, "O": 2},
+  "V": {"C": 5, "H": 9, "N": 1, "O": 1},
+  "X": {},
+  "O": {"C": 12, "H": 19, "N": 3, "O": 2},
+}
+
+// Exact masses of specific isotopes, keyed by mass number and element. Used for isotope labels
+// and for isotopes written in chemical formulas, e.g. [13C2]
+export const isotope_mass: {[key: string]: number} = {
+  "1H": 1.00782503207,
+  "2H": 2.0141017778,
+  "3H": 3.0160492777,
+  "6Li": 6.015122795,
+  "7Li": 7.01600455,
+  "10B": 10.0129370,
+  "11B": 11.0093054,
+  "12C": 12.0,
+  "13C": 13.0033548378,
+  "14C": 14.003241989,
+  "14N": 14.0030740048,
+  "15N": 15.0001088982,
+  "16O": 15.99491461956,
+  "17O": 16.99913170,
+  "18O": 17.9991610,
+  "19F": 18.99840322,
+  "23Na": 22.9897692809,
+  "24Mg": 23.9850417,
+  "25Mg": 24.98583692,
+  "26Mg": 25.982592929,
+  "31P": 30.97376163,
+  "32P": 31.97390727,
+  "32S": 31.97207100,
+  "33S": 32.97145876,
+  "34S": 33.96786690,
+  "36S": 35.96708076,
+  "35Cl": 34.96885268,
+  "37Cl": 36.96590259,
+  "39K": 38.96370668,
+  "41K": 40.96182576,
+  "40Ca": 39.96259098,
+  "42Ca": 41.95861801,
+  "43Ca": 42.9587666,
+  "44Ca": 43.9554818,
+  "48Ca": 47.952534,
+  "54Fe": 53.9396105,
+  "56Fe": 55.9349375,
+  "57Fe": 56.9353940,
+  "58Fe": 57.9332756,
+  "63Cu": 62.9295975,
+  "65Cu": 64.9277895,
+  "64Zn": 63.9291422,
+  "66Zn": 65.9260334,
+  "67Zn": 66.9271273,
+  "68Zn": 67.9248442,
+  "70Zn": 69.9253193,
+  "74Se": 73.9224764,
+  "76Se": 75.9192136,
+  "77Se": 76.9199140,
+  "78Se": 77.9173091,
+  "80Se": 79.9165213,
+  "82Se": 81.9166994,
+  "79Br": 78.9183371,
+  "81Br": 80.9162906,
+  "127I": 126.904473,
+}
+
+// Natural abundances of the stable isotopes of elements with more than one, keyed as in
+// isotope_mass. Elements not listed are treated as having a single isotope.
+export const isotope_abundance: {[element: string]: {[isotope: string]: number}} = {
+  "H": {"1H": 0.999885, "2H": 0.000115},
+  "Li": {"6Li": 0.0759, "7Li": 0.9241},
+  "B": {"10B": 0.199, "11B": 0.801},
+  "C": {"12C": 0.9893, "13C": 0.0107},
+  "N": {"14N": 0.99636, "15N": 0.00364},
+  "O": {"16O": 0.99757, "17O": 0.00038, "18O": 0.00205},
+  "Mg": {"24Mg": 0.7899, "25Mg": 0.1000, "26Mg": 0.1101},
+  "S": {"32S": 0.9499, "33S": 0.0075, "34S": 0.0425, "36S": 0.0001},
+  "Cl": {"35Cl": 0.7576, "37Cl": 0.2424},
+  "K": {"39K": 0.932581, "41K": 0.067302},
+  "Ca": {"40Ca": 0.96941, "42Ca": 0.00647, "43Ca": 0.00135, "44Ca": 0.02086, "48Ca": 0.00187},
+  "Fe": {"54Fe": 0.05845, "56Fe": 0.91754, "57Fe": 0.02119, "58Fe": 0.00282},
+  "Cu": {"63Cu": 0.6915, "65Cu": 0.3085},
+  "Zn": {"64Zn": 0.4863, "66Zn": 0.2790, "67Zn": 0.0410, "68Zn": 0.1875, "70Zn": 0.0062},
+  "Se": {"74Se": 0.0089, "76Se": 0.0937, "77Se": 0.0763, "78Se": 0.2377, "80Se": 0.4961, "82Se": 0.0873},
+  "Br": {"79Br": 0.5069, "81Br": 0.4931},
+}
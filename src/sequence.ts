@@ -1,7 +1,11 @@
 import { BaseBlock } from './base_block';
-import {GlobalModification, Modification, ModificationMap} from './modification';
+import { Composition, WATER } from './composition';
+import { isotopeDistribution, IsotopeDistributionOptions, IsotopePeak } from './isotope';
+import { calculateMz, isotopeLabelShift, MassType } from './mass';
+import {GlobalModification, Modification, ModificationMap, ProFormaFormatOptions} from './modification';
 import {AminoAcid} from "./amino_acid";
-import {ProFormaParser, SequenceAmbiguity} from "./proforma";
+import {Adduct, ProFormaDiagnostic, ProFormaParseOptions, ProFormaParser, SequenceAmbiguity} from "./proforma";
+import {ChainNode, PeptidoformNode, ProFormaDocument} from "./proforma_ast";
 
 /**
  * Count unique elements in a sequence.
@@ -89,6 +93,117 @@ export function orderedSerializePositionDict(positions: Record<number, any>): st
   }
 }
 
+type ModificationSlot = "nTermMods" | "cTermMods" | "labileMods" | "unknownPositionMods";
+
+/**
+ * Legacy negative positions and the named Sequence slot each one maps to.
+ */
+const LEGACY_MOD_SLOTS: Record<number, ModificationSlot> = {
+  [-1]: "nTermMods",
+  [-2]: "cTermMods",
+  [-3]: "labileMods",
+  [-4]: "unknownPositionMods"
+};
+
+/**
+ * Position keyed modification map of a Sequence.
+ *
+ * For backward compatibility the legacy keys -1 (N-terminal), -2 (C-terminal), -3 (labile)
+ * and -4 (unknown position) are forwarded to the named slots of the owning sequence. A slot
+ * is present in the map, for `has`, `size` and iteration, while it holds modifications, and
+ * `clear` empties it along with the residue positions. Residue positions are iterated first,
+ * then the present slots. New code should use `Sequence.nTermMods`, `cTermMods`, `labileMods`
+ * and `unknownPositionMods` instead of the negative keys.
+ */
+export class SequenceModMap extends Map<number, Modification[]> {
+  private readonly owner!: Record<ModificationSlot, Modification[]>;
+
+  constructor(owner: Record<ModificationSlot, Modification[]>) {
+    super();
+    // Not enumerable, so that copying a sequence does not follow the reference back to it
+    Object.defineProperty(this, "owner", { value: owner, enumerable: false });
+  }
+
+  get(position: number): Modification[] | undefined {
+    const slot = LEGACY_MOD_SLOTS[position];
+    // The slot array is returned even when empty so that callers can push into it
+    return slot ? this.owner[slot] : super.get(position);
+  }
+
+  has(position: number): boolean {
+    const slot = LEGACY_MOD_SLOTS[position];
+    return slot ? this.owner[slot].length > 0 : super.has(position);
+  }
+
+  set(position: number, mods: Modification[]): this {
+    const slot = LEGACY_MOD_SLOTS[position];
+    if (slot) {
+      this.owner[slot] = mods;
+      return this;
+    }
+    return super.set(position, mods);
+  }
+
+  delete(position: number): boolean {
+    const slot = LEGACY_MOD_SLOTS[position];
+    if (slot) {
+      const had = this.owner[slot].length > 0;
+      this.owner[slot] = [];
+      return had;
+    }
+    return super.delete(position);
+  }
+
+  clear(): void {
+    super.clear();
+    for (const slot of Object.values(LEGACY_MOD_SLOTS)) {
+      this.owner[slot] = [];
+    }
+  }
+
+  get size(): number {
+    return super.size + [...this._slotEntries()].length;
+  }
+
+  *entries(): IterableIterator<[number, Modification[]]> {
+    yield* super.entries();
+    yield* this._slotEntries();
+  }
+
+  *keys(): IterableIterator<number> {
+    for (const [position] of this.entries()) {
+      yield position;
+    }
+  }
+
+  *values(): IterableIterator<Modification[]> {
+    for (const [, mods] of this.entries()) {
+      yield mods;
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[number, Modification[]]> {
+    return this.entries();
+  }
+
+  forEach(callback: (mods: Modification[], position: number, map: Map<number, Modification[]>) => void, thisArg?: any): void {
+    for (const [position, mods] of this.entries()) {
+      callback.call(thisArg, mods, position, this);
+    }
+  }
+
+  /**
+   * Get the legacy keys and modifications of the named slots that hold modifications.
+   */
+  private *_slotEntries(): IterableIterator<[number, Modification[]]> {
+    for (const [position, slot] of Object.entries(LEGACY_MOD_SLOTS)) {
+      if (this.owner[slot].length > 0) {
+        yield [Number(position), this.owner[slot]];
+      }
+    }
+  }
+}
+
 export class Sequence<T extends BaseBlock = AminoAcid> {
   // Regular expression patterns for parsing
   private static _MOD_PATTERN = /[\(|\[]+([^\)]+)[\)|\]]+/;
@@ -100,14 +215,32 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
   seq: T[];
   chains: Sequence[];
   isMultiChain: boolean;
-  mods: Map<number, Modification[]>;
+  /** Modifications by residue position, see SequenceModMap for the legacy negative keys */
+  mods: SequenceModMap;
+  nTermMods: Modification[] = [];
+  cTermMods: Modification[] = [];
+  labileMods: Modification[] = [];
+  unknownPositionMods: Modification[] = [];
+  /**
+   * Global modifications written in front of the peptidoform. Those of the first chain of a
+   * multi-chain sequence apply to every chain, see `chainGlobalMods`
+   */
   globalMods: GlobalModification[];
   sequenceAmbiguities: SequenceAmbiguity[];
   seqLength: number;
   charge: number | null;
   ionicSpecies: string | null;
+  /** Parsed ionic species; empty when the charge is carried by protons */
+  adducts: Adduct[] = [];
   isChimeric: boolean = false;
   peptidoforms: Sequence[];
+  /** Name given with `(>name)`, e.g. a spectrum library identifier */
+  peptidoformName: string | null = null;
+  /** Name given with `(>>name)` */
+  peptidoformIonName: string | null = null;
+  /** Name given with `(>>>name)` */
+  compoundIonName: string | null = null;
+  diagnostics: ProFormaDiagnostic[] = [];
   private currentIterCount: number = 0;
 
   /**
@@ -131,7 +264,7 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
     this.seq = [];
     this.chains = chains || [this];
     this.isMultiChain = false;
-    this.mods = new Map();
+    this.mods = new SequenceModMap(this);
     this.globalMods = globalMods || [];
     this.sequenceAmbiguities = sequenceAmbiguities || [];
     this.charge = charge
@@ -139,15 +272,21 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
     this.peptidoforms = [];
 
     if (seq instanceof Sequence) {
-      // Copy attributes from existing sequence
+      // Copy attributes from existing sequence, pointing references to it (e.g. in
+      // peptidoforms) at the copy
+      const copies = new Map<any, any>([[seq, this]]);
       for (const [key, value] of Object.entries(seq)) {
         if (key !== 'mods') {
-          (this as any)[key] = this.deepCopy(value);
+          (this as any)[key] = this.deepCopy(value, copies);
         }
       }
 
       if ((seq as any).mods instanceof Map) {
         for (const [pos, modList] of (seq as any).mods.entries()) {
+          // The named slots were copied with the other attributes
+          if (pos < 0) {
+            continue;
+          }
           this.mods.set(pos, this.deepCopy(modList));
         }
       }
@@ -176,82 +315,113 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
 
   /**
    * Create a Sequence object from a ProForma string with multi-chain support.
+   *
+   * In lenient mode parsing problems do not throw; the best-effort sequence is returned
+   * and every error and warning is collected in its `diagnostics` list.
+   */
+  static fromProforma(proformaStr: string, options: ProFormaParseOptions = {}): Sequence {
+    return Sequence.fromAst(ProFormaParser.parseDocument(proformaStr, options));
+  }
+
+  /**
+   * Create a Sequence object from a ProForma syntax tree.
+   *
+   * Each chain and peptidoform keeps the global modifications written in front of it; those
+   * of the first chain apply to every chain, see `chainGlobalMods`.
+   *
+   * @param node - A whole document as returned by `ProFormaParser.parseDocument`, or a
+   * single peptidoform as returned by `ProFormaParser.parsePeptidoform`
    */
-  static fromProforma(proformaStr: string): Sequence {
-    if (proformaStr.includes("//")) {
-      const chains = proformaStr.split("//");
-      const mainSeq = Sequence.fromProforma(chains[0]);
+  static fromAst(node: ProFormaDocument | PeptidoformNode): Sequence {
+    if (node.kind === "peptidoform") {
+      return Sequence._fromPeptidoformNode(node);
+    }
+
+    if (node.chains.length > 1) {
+      const mainSeq = Sequence._fromChainNode(node.chains[0]);
       mainSeq.isMultiChain = true;
       mainSeq.chains = [mainSeq];
 
-      for (const chainStr of chains.slice(1)) {
-        const chain = Sequence.fromProforma(chainStr);
+      for (const chainNode of node.chains.slice(1)) {
+        const chain = Sequence._fromChainNode(chainNode);
         mainSeq.chains.push(chain);
+        mainSeq.diagnostics.push(...chain.diagnostics);
       }
 
       return mainSeq;
     }
 
-    const peptidoforms = splitChimericProforma(proformaStr);
-    if (peptidoforms.length > 1) {
-      const mainSeq = Sequence.fromProforma(peptidoforms[0]);
+    return Sequence._fromChainNode(node.chains[0]);
+  }
+
+  /**
+   * Build a chain, which holds several peptidoforms if it is chimeric.
+   */
+  private static _fromChainNode(node: ChainNode): Sequence {
+    if (node.peptidoforms.length > 1) {
+      const mainSeq = Sequence._fromPeptidoformNode(node.peptidoforms[0]);
       mainSeq.isChimeric = true;
       mainSeq.peptidoforms = [mainSeq];
-      for (const pep of peptidoforms.slice(1)) {
-        const peptidoform = this.fromProforma(pep);
+      for (const peptidoformNode of node.peptidoforms.slice(1)) {
+        const peptidoform = Sequence._fromPeptidoformNode(peptidoformNode);
         peptidoform.isChimeric = true;
         mainSeq.peptidoforms.push(peptidoform);
+        mainSeq.diagnostics.push(...peptidoform.diagnostics);
       }
-      for (const chainStr of peptidoforms.slice(1)) {
-        const chain = Sequence.fromProforma(chainStr);
-        mainSeq.chains.push(chain);
+      for (const peptidoformNode of node.peptidoforms.slice(1)) {
+        mainSeq.chains.push(Sequence._fromPeptidoformNode(peptidoformNode));
       }
 
       return mainSeq;
     }
 
-    const [
-      baseSequence,
-      modifications,
-      globalMods,
-      sequenceAmbiquities,
-      chargeInfo
-    ] = ProFormaParser.parse(proformaStr);
-    const charge = chargeInfo ? chargeInfo[0] : null;
-    const species = chargeInfo ? chargeInfo[1] : null;
+    return Sequence._fromPeptidoformNode(node.peptidoforms[0]);
+  }
+
+  private static _fromPeptidoformNode(node: PeptidoformNode): Sequence {
     const seq = new Sequence(
-      baseSequence,
+      node.residues.map(residue => residue.value).join(""),
       AminoAcid as any,
       {},
       true,
       [],
       'right',
       [],
-      globalMods,
-      sequenceAmbiquities,
-      charge,
-      species
+      node.globals.map(global => global.modification),
+      node.sequenceAmbiguities.map(ambiguity => new SequenceAmbiguity(ambiguity.value, ambiguity.index)),
+      node.charge ? node.charge.charge : null,
+      node.charge ? node.charge.ionicSpecies : null
     );
-    if (charge) {
+    seq.diagnostics = [...node.diagnostics];
+    seq.adducts = node.charge ? [...node.charge.adducts] : [];
+    for (const name of node.names) {
+      if (name.level === "compound") {
+        seq.compoundIonName = name.value;
+      } else if (name.level === "ion") {
+        seq.peptidoformIonName = name.value;
+      } else {
+        seq.peptidoformName = name.value;
+      }
+    }
+    if (seq.charge) {
       seq.isChimeric = true;
     }
-    for (const [posStr, mods] of Object.entries(modifications)) {
-      const pos = parseInt(posStr);
-      for (const mod of mods) {
-        if (pos === -1) {
-          if (!seq.mods.has(-1)) seq.mods.set(-1, []);
-          seq.mods.get(-1)?.push(mod);
-        } else if (pos === -2) {
-          if (!seq.mods.has(-2)) seq.mods.set(-2, []);
-          seq.mods.get(-2)?.push(mod);
-        } else if (pos === -3) {
-          if (!seq.mods.has(-3)) seq.mods.set(-3, []);
-          seq.mods.get(-3)?.push(mod);
-        } else if (pos === -4) {
-          if (!seq.mods.has(-4)) seq.mods.set(-4, []);
-          seq.mods.get(-4)?.push(mod);
-        } else {
-          seq.seq[pos].addModification(mod);
+
+    seq.unknownPositionMods = node.unknownPositionMods.flatMap(
+      unknownMod => ProFormaParser.expandUnknownPosition(unknownMod)
+    );
+    seq.labileMods = node.labileMods.map(labile => labile.tag.modification);
+    seq.nTermMods = (node.nTerm?.tags ?? []).map(tag => tag.modification);
+    seq.cTermMods = (node.cTerm?.tags ?? []).map(tag => tag.modification);
+    for (const residue of node.residues) {
+      for (const tag of residue.tags) {
+        seq.seq[residue.index].addModification(tag.modification);
+      }
+    }
+    for (const range of node.ranges) {
+      for (const tag of range.tags) {
+        for (let pos = range.startIndex; pos <= range.endIndex; pos++) {
+          seq.seq[pos].addModification(tag.modification);
         }
       }
     }
@@ -427,19 +597,48 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
   /**
    * Deep copy an object or array.
    */
-  private deepCopy<U>(obj: U): U {
+  private deepCopy<U>(obj: U, copies: Map<any, any> = new Map()): U {
     if (obj === null || typeof obj !== 'object') {
       return obj;
     }
 
+    // Objects already copied are shared, which also breaks reference cycles
+    if (copies.has(obj)) {
+      return copies.get(obj);
+    }
+
     if (Array.isArray(obj)) {
-      return obj.map(item => this.deepCopy(item)) as any;
+      const copy: any[] = [];
+      copies.set(obj, copy);
+      for (const item of obj) {
+        copy.push(this.deepCopy(item, copies));
+      }
+      return copy as any;
+    }
+
+    if (obj instanceof Map) {
+      const copy = new Map();
+      copies.set(obj, copy);
+      for (const [key, value] of obj) {
+        copy.set(key, this.deepCopy(value, copies));
+      }
+      return copy as any;
+    }
+
+    if (obj instanceof Set) {
+      const copy = new Set();
+      copies.set(obj, copy);
+      for (const item of obj) {
+        copy.add(this.deepCopy(item, copies));
+      }
+      return copy as any;
     }
 
     const copy = Object.create(Object.getPrototypeOf(obj));
+    copies.set(obj, copy);
     for (const key in obj) {
       if (Object.prototype.hasOwnProperty.call(obj, key)) {
-        copy[key] = this.deepCopy((obj as any)[key]);
+        copy[key] = this.deepCopy((obj as any)[key], copies);
       }
     }
     return copy as U;
@@ -447,35 +646,47 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
 
   /**
    * Convert the sequence to ProForma format.
+   *
+   * @param options - Formatting options; pass `{canonical: true}` for a normalized string
+   * that can be used to deduplicate peptidoforms
    */
-  toProforma(): string {
+  toProforma(options: ProFormaFormatOptions = {}): string {
     if (this.isMultiChain) {
-      return this.chains.map(chain => this._chainToProforma(chain)).join("//");
+      return this.chains.map(chain => this._chainToProforma(chain, options)).join("//");
     } else {
       if (this.isChimeric) {
         if (this.peptidoforms.length > 0) {
-          return this.peptidoforms.map(pep => this._chainToProforma(pep)).join("+");
+          return this.peptidoforms.map(pep => this._chainToProforma(pep, options)).join("+");
         }
       }
-      return this._chainToProforma(this as unknown as Sequence<AminoAcid>)
+      return this._chainToProforma(this as unknown as Sequence<AminoAcid>, options)
     }
   }
 
   /**
    * Convert a chain to ProForma format.
    */
-  private _chainToProforma(chain: Sequence): string {
+  private _chainToProforma(chain: Sequence, options: ProFormaFormatOptions = {}): string {
     let result = "";
 
-    // Add global modifications
-    for (const mod of this.globalMods) {
-      result += mod.toProforma();
+    // Add names, from the widest to the narrowest scope
+    if (chain.compoundIonName !== null) {
+      result += `(>>>${chain.compoundIonName})`;
+    }
+    if (chain.peptidoformIonName !== null) {
+      result += `(>>${chain.peptidoformIonName})`;
+    }
+    if (chain.peptidoformName !== null) {
+      result += `(>${chain.peptidoformName})`;
     }
 
+    // Add the global modifications written in front of this chain or peptidoform
+    result += this._ordered(chain.globalMods.map(mod => mod.toProforma(options)), options).join("");
+
     // Handle position ranges and modifications
     const ranges: [number, number, Modification][] = [];
-    for (let i = 0; i < this.seq.length; i++) {
-      const aa = this.seq[i];
+    for (let i = 0; i < chain.seq.length; i++) {
+      const aa = chain.seq[i];
       if (aa instanceof AminoAcid) {
         for (const mod of aa.mods) {
           if (
@@ -492,18 +703,14 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
     ranges.sort((a, b) => a[0] - b[0]);
 
     // Handle unknown position modifications
-    if (chain.mods.has(-4)) {
+    if (chain.unknownPositionMods.length) {
       const unknownModsByValue = new Map<string, number>();
-      const chainMods = chain.mods.get(-4);
-      if (chainMods) {
-        for (const mod of chainMods) {
-          const modProforma = mod.toProforma();
-          unknownModsByValue.set(modProforma, (unknownModsByValue.get(modProforma) || 0) + 1);
-        }
+      for (const mod of chain.unknownPositionMods) {
+        const modProforma = mod.toProforma(options);
+        unknownModsByValue.set(modProforma, (unknownModsByValue.get(modProforma) || 0) + 1);
       }
 
-
-      for (const [modValue, count] of unknownModsByValue.entries()) {
+      for (const [modValue, count] of this._ordered([...unknownModsByValue.entries()], options)) {
         let ambiguityStr = "";
         if (count > 1) {
           ambiguityStr += `[${modValue}]`;
@@ -517,30 +724,21 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
     }
 
     // Handle labile modifications
-    const labileChainMods = chain.mods.get(-3);
-    if (labileChainMods) {
-      for (const mod of labileChainMods) {
-        if (mod.modType === "labile") {
-          result += `{${mod.toProforma()}}`;
-        }
-      }
-    }
+    const labileStrs = chain.labileMods
+      .filter(mod => mod.modType === "labile")
+      .map(mod => `{${mod.toProforma(options)}}`);
+    result += this._ordered(labileStrs, options).join("");
 
     // Handle N-terminal modifications
-    const nChainMod = chain.mods.get(-1);
-    if (nChainMod) {
-      let nModStr = "";
-      for (const mod of nChainMod) {
-        const modStr = `[${mod.toProforma()}]`;
-        nModStr += modStr;
-      }
+    if (chain.nTermMods.length) {
+      const nModStr = this._ordered(chain.nTermMods.map(mod => `[${mod.toProforma(options)}]`), options).join("");
       if (nModStr) {
         result += nModStr + "-";
       }
     }
 
     // Handle sequence ambiguities
-    const sortedAmbiguities = [...this.sequenceAmbiguities].sort((a, b) => a.position - b.position);
+    const sortedAmbiguities = [...chain.sequenceAmbiguities].sort((a, b) => a.position - b.position);
     let ambiguityIndex = 0;
 
     // Process each amino acid in the sequence
@@ -571,13 +769,13 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
       result += chain.seq[i].value;
 
       // Add modifications for this position
-      let modStrData = "";
+      const modStrData: string[] = [];
       if (chain.seq[i].mods && chain.seq[i].mods.length > 0) {
         const crosslinkRefsAdded = new Set();
         let branchRefsAdded = false;
 
         for (const mod of chain.seq[i].mods) {
-          let thisModStr = mod.toProforma();
+          let thisModStr = mod.toProforma(options);
           if (rangeStart && mod.inRange) {
             continue;
           }
@@ -595,9 +793,9 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
             thisModStr = `[${thisModStr}]`;
           }
 
-          modStrData += thisModStr;
+          modStrData.push(thisModStr);
         }
-        result += modStrData;
+        result += this._ordered(modStrData, options).join("");
       }
 
       // Check for range end
@@ -611,21 +809,16 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
         }
 
         if (!rangeStart) {
-          result = this.getModAndAddToString(chain.seq[i], result);
+          result = this.getModAndAddToString(chain.seq[i], result, options);
         }
       }
     }
 
     // Handle C-terminal modifications
-    const cChainMod = chain.mods.get(-2);
-    if (cChainMod) {
-      let nModStr = "";
-      for (const mod of cChainMod) {
-        const modStr = `[${mod.toProforma()}]`;
-        nModStr += modStr;
-      }
-      if (nModStr) {
-        result += "-" + nModStr;
+    if (chain.cTermMods.length) {
+      const cModStr = this._ordered(chain.cTermMods.map(mod => `[${mod.toProforma(options)}]`), options).join("");
+      if (cModStr) {
+        result += "-" + cModStr;
       }
     }
     if (chain.charge) {
@@ -641,11 +834,11 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
   /**
    * Get modifications and add to string.
    */
-  getModAndAddToString(aa: AminoAcid, result: string): string {
-    let modStr = "";
+  getModAndAddToString(aa: AminoAcid, result: string, options: ProFormaFormatOptions = {}): string {
+    const modStrs: string[] = [];
     if (aa.mods && aa.mods.length > 0) {
       for (const mod of aa.mods) {
-        let thisModStr = mod.toProforma();
+        let thisModStr = mod.toProforma(options);
         if (mod.modType === "ambiguous") {
           if (!mod.hasAmbiguity) {
             if (mod.inRange) {
@@ -659,13 +852,25 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
         } else {
           thisModStr = `[${thisModStr}]`;
         }
-        modStr += thisModStr;
+        modStrs.push(thisModStr);
       }
-      result += modStr;
+      result += this._ordered(modStrs, options).join("");
     }
     return result;
   }
 
+  /**
+   * Sort formatted modifications, or modification groups keyed by their formatted form, in
+   * canonical mode so that the order they were written in does not change the string.
+   */
+  private _ordered<U extends string | [string, unknown]>(items: U[], options: ProFormaFormatOptions): U[] {
+    if (!options.canonical) {
+      return items;
+    }
+    const key = (item: U) => (typeof item === "string" ? item : item[0]);
+    return [...items].sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+  }
+
   /**
    * Add info tags to the result string based on the modification.
    */
@@ -745,6 +950,8 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
       const [start, end] = key;
       const newSeq = new Sequence(this.seq, this.encoder, {}, false);
       newSeq.seq = this.seq.slice(start, end);
+      // Isotope labels apply to every fragment of the sequence
+      newSeq.globalMods = this.globalMods.filter(mod => mod.globalModType === "isotope");
       newSeq.seqLength = newSeq.seq.length;
       return newSeq as unknown as Sequence;
     }
@@ -823,6 +1030,269 @@ export class Sequence<T extends BaseBlock = AminoAcid> {
     }
   }
 
+  /**
+   * Place global fixed modifications on the residues and termini they target.
+   *
+   * Every peptidoform of the returned copy has its fixed modifications moved from
+   * `globalMods` onto the matching residues and terminal modification lists, so that mass
+   * and fragment calculations include them. Isotope labels stay global.
+   *
+   * @returns A new Sequence; this sequence is left unchanged
+   */
+  applyGlobalModifications(): Sequence {
+    const applied = new Sequence(this as unknown as Sequence);
+    // Taken before any are placed, as the globals of the first chain apply to the others too
+    const globalMods = new Map([...new Set([applied, ...applied.chains, ...applied.peptidoforms])]
+      .map(peptidoform => [peptidoform, applied.chainGlobalMods(peptidoform)]));
+    for (const [peptidoform, chainGlobalMods] of globalMods) {
+      const fixedMods = chainGlobalMods.filter(mod => mod.globalModType === "fixed");
+      const lastIndex = peptidoform.seq.length - 1;
+
+      peptidoform.seq.forEach((aa, i) => {
+        for (const globalMod of fixedMods) {
+          for (const placement of globalMod.matchTargets(aa.value, i === 0, i === lastIndex)) {
+            const mod = ProFormaParser._createModification(globalMod.originalValue, {
+              isTerminal: placement !== "residue"
+            });
+            if (placement === "N-term") {
+              peptidoform.nTermMods.push(mod);
+            } else if (placement === "C-term") {
+              peptidoform.cTermMods.push(mod);
+            } else {
+              aa.addModification(mod);
+            }
+          }
+        }
+      });
+      peptidoform.globalMods = peptidoform.globalMods.filter(mod => mod.globalModType !== "fixed");
+    }
+    return applied;
+  }
+
+  /**
+   * Calculate the neutral mass of the peptidoform, including water, terminal, labile and
+   * unknown position modifications and global fixed modifications. A modification placed on
+   * a range counts once, and cross-link, branch and ambiguity references add nothing. The
+   * chains of a multi-chain sequence are added together. Isotope labels apply to the residues,
+   * water and the modifications of known composition.
+   *
+   * @param massType - Whether to give the monoisotopic or the average mass
+   * @returns The mass of the neutral molecule
+   * @throws Error if the mass of a residue or modification is not known
+   */
+  getMass(massType: MassType = "monoisotopic"): number {
+    const peptidoform = this._withGlobalModificationsApplied();
+    const molecules = peptidoform.isMultiChain ? peptidoform.chains : [peptidoform as unknown as Sequence];
+    return molecules.reduce((mass, molecule) => {
+      const isotopeLabels = peptidoform.chainGlobalMods(molecule)
+        .filter(mod => mod.globalModType === "isotope")
+        .map(mod => mod.value);
+      return mass + molecule._blockMass(massType, isotopeLabels, true);
+    }, 0);
+  }
+
+  /**
+   * Get the global modifications that apply to a chain of this sequence. Those written in
+   * front of the first chain of a multi-chain sequence apply to the whole molecule, and so to
+   * every chain, while those written in front of a later chain apply to that chain alone; one
+   * that repeats a global of the first chain is counted once. A peptidoform of a chimeric
+   * sequence only has its own.
+   *
+   * @param chain - This sequence or one of its chains or peptidoforms
+   */
+  chainGlobalMods(chain: Sequence): GlobalModification[] {
+    const self = this as unknown as Sequence;
+    if (!this.isMultiChain || chain === self || !this.chains.includes(chain)) {
+      return chain.globalMods;
+    }
+    const written = new Set(this.globalMods.map(mod => mod.toProforma()));
+    return [...this.globalMods, ...chain.globalMods.filter(mod => !written.has(mod.toProforma()))];
+  }
+
+  /**
+   * Get this sequence, or a copy with its global fixed modifications placed if any of its
+   * chains or peptidoforms has one.
+   */
+  private _withGlobalModificationsApplied(): Sequence<T> {
+    const hasFixed = [this as unknown as Sequence, ...this.chains, ...this.peptidoforms]
+      .some(peptidoform => peptidoform.globalMods.some(mod => mod.globalModType === "fixed"));
+    return hasFixed ? this.applyGlobalModifications() as unknown as Sequence<T> : this;
+  }
+
+  /**
+   * Sum the masses of the residues and the modifications that add to the mass.
+   *
+   * @param massType - Whether to give the monoisotopic or the average mass
+   * @param isotopeLabels - Isotope labels applied to the residues, water and modifications
+   * @param withWater - Whether to add the water of the terminal groups
+   * @param requireModMass - Whether a modification of unknown mass is an error rather than
+   * adding nothing
+   * @throws Error if the mass of a residue, or of a modification when required, is not known
+   */
+  protected _blockMass(
+    massType: MassType,
+    isotopeLabels: string[],
+    withWater: boolean,
+    requireModMass: boolean = true
+  ): number {
+    let mass = withWater ? (massType === "average" ? WATER.averageMass : WATER.monoisotopicMass) : 0;
+    for (const aa of this.seq) {
+      const residueMass = aa instanceof AminoAcid ? aa.getMass(massType) : aa.mass;
+      if (residueMass === null) {
+        throw new Error(`Mass of residue '${aa.value}' is not known`);
+      }
+      mass += residueMass;
+    }
+    const mods: Modification[] = [];
+    for (const mod of this._massContributingMods()) {
+      if (!mod.hasMass) {
+        if (!requireModMass) {
+          continue;
+        }
+        throw new Error(`Mass of modification '${mod.toProforma()}' is not known`);
+      }
+      mass += mod.getMass(massType);
+      mods.push(mod);
+    }
+    if (isotopeLabels.length) {
+      mass += isotopeLabelShift(this.seq, isotopeLabels, withWater, massType, mods);
+    }
+    return mass;
+  }
+
+  /**
+   * Calculate the neutral monoisotopic mass of the peptidoform.
+   *
+   * @returns The mass of the neutral molecule
+   * @throws Error if the mass of a residue or modification is not known
+   */
+  getMonoisotopicMass(): number {
+    return this.getMass("monoisotopic");
+  }
+
+  /**
+   * Calculate the m/z of the peptidoform. The ionic species of the ProForma string carry
+   * the charge, or protons when there are none; a charge other than that of the ionic
+   * species, e.g. `getMz(3)` for `/2[+2Na+]`, is carried by protons.
+   *
+   * @param charge - The charge state; the charge of the ProForma string is used if not given
+   * @param massType - Whether to use monoisotopic or average masses
+   * @returns The mass-to-charge ratio
+   * @throws Error if there is no charge, the ionic species do not add up to the charge of the
+   * ProForma string, or the mass of a residue or modification is not known
+   */
+  getMz(charge?: number | null, massType: MassType = "monoisotopic"): number {
+    const z = charge ?? this.charge;
+    if (!z) {
+      throw new Error("Cannot calculate m/z without a charge state");
+    }
+    return calculateMz(this.getMass(massType), z, this._chargeCarryingAdducts(z));
+  }
+
+  /**
+   * Get the ionic species that carry a charge: those of the ProForma string if their total
+   * charge is the one asked for, otherwise none, so that protons carry it.
+   *
+   * @throws Error if the ionic species do not add up to the charge of the ProForma string,
+   * e.g. `/2[+2Na+,+H+]`, as the m/z of such an ion is not known
+   */
+  protected _chargeCarryingAdducts(charge: number | null): Adduct[] {
+    if (!this.adducts.length) {
+      return [];
+    }
+    const adductCharge = this.adducts.reduce((sum, adduct) => sum + adduct.totalCharge, 0);
+    if (adductCharge !== this.charge) {
+      throw new Error(
+        `The ionic species '${this.ionicSpecies}' carry a charge of ${adductCharge}, not ${this.charge}`
+      );
+    }
+    return adductCharge === charge ? this.adducts : [];
+  }
+
+  /**
+   * Calculate the elemental composition of the peptidoform, including water, all
+   * modifications and global fixed modifications. A modification placed on a range counts
+   * once, and cross-link, branch and ambiguity references add nothing. The chains of a
+   * multi-chain sequence are added together, as for `getMass`. Isotope labels apply to the
+   * residues, water and modifications.
+   *
+   * @returns The composition of the neutral molecule
+   * @throws Error if the composition of a residue or modification is not known
+   */
+  getComposition(): Composition {
+    const peptidoform = this._withGlobalModificationsApplied();
+    const molecules = peptidoform.isMultiChain ? peptidoform.chains : [peptidoform as unknown as Sequence];
+    return molecules.reduce((composition, molecule) => {
+      const isotopeLabels = peptidoform.chainGlobalMods(molecule)
+        .filter(mod => mod.globalModType === "isotope")
+        .map(mod => mod.value);
+      return composition.add(molecule._blockComposition(isotopeLabels));
+    }, new Composition());
+  }
+
+  /**
+   * Sum the compositions of water, the residues and the modifications that add to the mass,
+   * and apply isotope labels to the total.
+   *
+   * @throws Error if the composition of a residue or modification is not known
+   */
+  private _blockComposition(isotopeLabels: string[]): Composition {
+    let composition = WATER;
+    for (const aa of this.seq) {
+      const residue = aa instanceof AminoAcid ? aa.composition : null;
+      if (!residue) {
+        throw new Error(`Composition of residue '${aa.value}' is not known`);
+      }
+      composition = composition.add(residue);
+    }
+    for (const mod of this._massContributingMods()) {
+      if (!mod.composition) {
+        throw new Error(`Composition of modification '${mod.toProforma()}' is not known`);
+      }
+      composition = composition.add(mod.composition);
+    }
+    return isotopeLabels.reduce((labelled, isotope) => labelled.withIsotopeLabel(isotope), composition);
+  }
+
+  /**
+   * Calculate the theoretical isotope distribution of the peptidoform from its elemental
+   * composition, that of all chains for a multi-chain sequence. The m/z values use the charge
+   * and ionic species of the ProForma string unless others are given, as for `getMz`; the
+   * isotopes of the ionic species themselves are not included.
+   *
+   * @param options - Charge and pruning of the distribution
+   * @returns The peaks in order of mass, the most abundant one with an abundance of 1
+   * @throws Error if the composition of a residue or modification is not known, or no ionic
+   * species are given and those of the ProForma string do not add up to its charge
+   */
+  getIsotopeDistribution(options: IsotopeDistributionOptions = {}): IsotopePeak[] {
+    const charge = options.charge !== undefined ? options.charge : this.charge;
+    const adducts = options.adducts ?? this._chargeCarryingAdducts(charge);
+    return isotopeDistribution(this.getComposition(), { ...options, charge, adducts });
+  }
+
+  /**
+   * Get the modifications that add to the mass of the peptidoform: a modification placed on
+   * a range once, on the residue where the range starts, and no cross-link, branch or
+   * ambiguity references or INFO tags.
+   */
+  private _massContributingMods(): Modification[] {
+    const mods: Modification[] = [
+      ...this.nTermMods,
+      ...this.cTermMods,
+      ...this.labileMods,
+      ...this.unknownPositionMods
+    ];
+    this.seq.forEach((aa, i) => {
+      if (aa instanceof AminoAcid) {
+        mods.push(...aa.mods.filter(mod => !mod.inRange || mod.rangeStart === (aa.position ?? i)));
+      }
+    });
+    return mods.filter(mod =>
+      !mod.isCrosslinkRef && !mod.isAmbiguityRef && !mod.modValue.isBranchRef && !mod.isInfoOnly
+    );
+  }
+
   /**
    * Return the sequence as a string without any modification annotations.
    */
@@ -0,0 +1,278 @@
+/**
+ * Unimod controlled vocabulary resolver.
+ */
+
+import { Composition } from './composition';
+import { oboKeyValue, oboKeyValues, parseObo } from './obo';
+import { ModificationDefinition, ModificationSpecificity, normalizeAccession, VocabularyResolver } from './resolver';
+import { element_mass, glycan_block_composition, isotope_mass } from './resources';
+
+/**
+ * Common Unimod entries bundled for use without a Unimod release:
+ * [record id, name, delta composition, specificities as `site` or `site@position`].
+ * Residue sites default to `Anywhere` and terminal sites to `Any N-term` / `Any C-term`.
+ */
+const UNIMOD_SNAPSHOT: [number, string, string, string[]][] = [
+  [1, "Acetyl", "H(2) C(2) O", ["K", "S", "T", "Y", "C", "H", "N-term", "N-term@Protein N-term"]],
+  [2, "Amidated", "H N O(-1)", ["C-term", "C-term@Protein C-term"]],
+  [3, "Biotin", "H(14) C(10) N(2) O(2) S", ["K", "N-term"]],
+  [4, "Carbamidomethyl", "H(3) C(2) N O", ["C", "K", "H", "D", "E", "N-term"]],
+  [5, "Carbamyl", "H C N O", ["K", "R", "C", "M", "N-term"]],
+  [6, "Carboxymethyl", "H(2) C(2) O(2)", ["C", "K", "W", "N-term"]],
+  [7, "Deamidated", "H(-1) N(-1) O", ["N", "Q", "R", "F@Protein N-term"]],
+  [21, "Phospho", "H O(3) P", ["S", "T", "Y", "H", "D", "C", "R", "K"]],
+  [23, "Dehydrated", "H(-2) O(-1)", ["S", "T", "Y", "D"]],
+  [24, "Propionamide", "H(5) C(3) N O", ["C", "K", "N-term"]],
+  [26, "Pyro-carbamidomethyl", "C(2) O", ["C@Any N-term"]],
+  [27, "Glu->pyro-Glu", "H(-2) O(-1)", ["E@Any N-term"]],
+  [28, "Gln->pyro-Glu", "H(-3) N(-1)", ["Q@Any N-term"]],
+  [30, "Cation:Na", "H(-1) Na", ["D", "E", "C-term"]],
+  [34, "Methyl", "H(2) C", ["K", "R", "H", "C", "D", "E", "N-term"]],
+  [35, "Oxidation", "O", ["M", "W", "H", "C", "P", "K", "Y"]],
+  [36, "Dimethyl", "H(4) C(2)", ["K", "R", "N-term"]],
+  [37, "Trimethyl", "H(6) C(3)", ["K", "R"]],
+  [40, "Sulfo", "O(3) S", ["Y", "S", "T"]],
+  [41, "Hex", "Hex", ["K", "N", "T", "W"]],
+  [43, "HexNAc", "HexNAc", ["N", "S", "T"]],
+  [45, "Myristoyl", "H(26) C(14) O", ["K", "C", "G@Any N-term"]],
+  [47, "Palmitoyl", "H(30) C(16) O", ["C", "K", "S", "T"]],
+  [55, "Glutathione", "H(15) C(10) N(3) O(6) S", ["C"]],
+  [58, "Propionyl", "H(4) C(3) O", ["K", "N-term"]],
+  [64, "Succinyl", "H(4) C(4) O(3)", ["K", "N-term"]],
+  [108, "Nethylmaleimide", "H(7) C(6) N O(2)", ["C"]],
+  [121, "GG", "H(6) C(4) N(2) O(2)", ["K", "C", "S", "T"]],
+  [122, "Formyl", "C O", ["K", "S", "T", "N-term"]],
+  [188, "Label:13C(6)", "C(-6) 13C(6)", ["R", "K", "L", "I"]],
+  [214, "iTRAQ4plex", "H(12) C(4) 13C(3) N 15N O", ["K", "Y", "N-term"]],
+  [259, "Label:13C(6)15N(2)", "C(-6) 13C(6) N(-2) 15N(2)", ["K"]],
+  [267, "Label:13C(6)15N(4)", "C(-6) 13C(6) N(-4) 15N(4)", ["R"]],
+  [275, "Nitrosyl", "H(-1) N O", ["C"]],
+  [312, "Cysteinyl", "H(5) C(3) N O(2) S", ["C"]],
+  [345, "Trioxidation", "O(3)", ["C", "W", "Y"]],
+  [354, "Nitro", "H(-1) N O(2)", ["Y", "W"]],
+  [385, "Ammonia-loss", "H(-3) N(-1)", ["N", "C@Any N-term"]],
+  [425, "Dioxidation", "O(2)", ["M", "W", "C", "Y"]],
+  [730, "iTRAQ8plex", "H(24) C(7) 13C(7) N(3) 15N O(3)", ["K", "Y", "N-term"]],
+  [737, "TMT6plex", "H(20) C(8) 13C(4) N 15N O(2)", ["K", "S", "T", "H", "N-term"]],
+  [747, "Malonyl", "H(2) C(3) O(3)", ["K", "S", "C"]],
+  [1289, "Butyryl", "H(6) C(4) O", ["K"]],
+  [1363, "Crotonyl", "H(4) C(4) O", ["K"]],
+  [2016, "TMTpro", "H(25) C(8) 13C(7) N 15N(2) O(3)", ["K", "S", "T", "H", "N-term"]],
+];
+
+/**
+ * Neutral losses of the bundled Unimod entries: record id to delta compositions by site.
+ */
+const UNIMOD_NEUTRAL_LOSSES: Record<number, Record<string, string[]>> = {
+  21: { "S": ["H(3) O(4) P"], "T": ["H(3) O(4) P"] },
+  35: { "M": ["H(4) C O S"] },
+};
+
+/**
+ * Resolves Unimod names, `UNIMOD:` accession numbers and alternative names. Values without
+ * a source prefix are resolved as Unimod names, as the ProForma specification prescribes.
+ *
+ * A snapshot of common entries is bundled with `UnimodResolver.bundled()`; a full Unimod
+ * release can be loaded from its OBO or XML file.
+ */
+export class UnimodResolver extends VocabularyResolver {
+  static readonly PREFIXES = ["U", "UNIMOD"];
+
+  constructor(definitions: ModificationDefinition[]) {
+    super(definitions, UnimodResolver.PREFIXES, true);
+  }
+
+  /**
+   * Create a resolver from the bundled snapshot of common Unimod entries.
+   */
+  static bundled(): UnimodResolver {
+    return new UnimodResolver(UNIMOD_SNAPSHOT.map(([id, name, delta, sites]) => {
+      const composition = UnimodResolver.parseComposition(delta)!;
+      return {
+        source: "UNIMOD",
+        accession: `UNIMOD:${id}`,
+        name,
+        synonyms: [],
+        monoisotopicMass: composition.monoisotopicMass,
+        averageMass: composition.averageMass,
+        composition,
+        xrefs: [],
+        specificities: sites.map(site => {
+          const [residue, position] = site.split("@");
+          const losses = UNIMOD_NEUTRAL_LOSSES[id]?.[residue];
+          return {
+            site: residue,
+            position: position ?? (residue === "N-term" ? "Any N-term" : residue === "C-term" ? "Any C-term" : "Anywhere"),
+            classification: null,
+            ...(losses ? { neutralLosses: losses.map(loss => UnimodResolver.parseComposition(loss)!) } : {})
+          };
+        })
+      };
+    }));
+  }
+
+  /**
+   * Create a resolver from the contents of a Unimod OBO file (`unimod.obo`).
+   */
+  static fromObo(text: string): UnimodResolver {
+    return new UnimodResolver(parseObo(text).filter(term => term.id.startsWith("UNIMOD:")).map(term => {
+      const delta = oboKeyValue(term, "delta_composition");
+      const composition = delta ? UnimodResolver.parseComposition(delta) : null;
+      const specificities: ModificationSpecificity[] = [];
+      for (let i = 1; oboKeyValue(term, `spec_${i}_site`) !== null; i++) {
+        const lossPattern = new RegExp(`^spec_${i}_neutral_loss_\\d+_composition$`);
+        const losses = neutralLosses(oboKeyValues(term)
+          .filter(([key]) => lossPattern.test(key))
+          .map(([, value]) => value));
+        specificities.push({
+          site: oboKeyValue(term, `spec_${i}_site`)!,
+          position: oboKeyValue(term, `spec_${i}_position`) ?? "Anywhere",
+          classification: oboKeyValue(term, `spec_${i}_classification`),
+          ...(losses.length ? { neutralLosses: losses } : {})
+        });
+      }
+      return {
+        source: "UNIMOD",
+        accession: term.id,
+        name: term.name,
+        synonyms: term.synonyms,
+        monoisotopicMass: parseMass(oboKeyValue(term, "delta_mono_mass")),
+        averageMass: parseMass(oboKeyValue(term, "delta_avge_mass")),
+        composition,
+        specificities,
+        xrefs: term.defRefs.map(normalizeAccession).filter((ref): ref is string => ref !== null)
+      };
+    }));
+  }
+
+  /**
+   * Create a resolver from the contents of the Unimod XML file (`unimod.xml`).
+   */
+  static fromXml(text: string): UnimodResolver {
+    const definitions: ModificationDefinition[] = [];
+    const modPattern = /<(?:umod:)?mod\s([^>]*)>([\s\S]*?)<\/(?:umod:)?mod>/g;
+    let match;
+    while ((match = modPattern.exec(text)) !== null) {
+      const attributes = parseXmlAttributes(match[1]);
+      const body = match[2];
+      const delta = parseXmlAttributes(/<(?:umod:)?delta\s([^>]*)>/.exec(body)?.[1] ?? "");
+      const composition = delta.composition ? UnimodResolver.parseComposition(delta.composition) : null;
+
+      const specificities: ModificationSpecificity[] = [];
+      const specificityPattern = /<(?:umod:)?specificity\s([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:umod:)?specificity>)/g;
+      let specificity;
+      while ((specificity = specificityPattern.exec(body)) !== null) {
+        const spec = parseXmlAttributes(specificity[1]);
+        const lossPattern = /<(?:umod:)?NeutralLoss\s([^>]*?)\/?>/g;
+        const lossCompositions: string[] = [];
+        let loss;
+        while ((loss = lossPattern.exec(specificity[2] ?? "")) !== null) {
+          lossCompositions.push(parseXmlAttributes(loss[1]).composition ?? "0");
+        }
+        const losses = neutralLosses(lossCompositions);
+        specificities.push({
+          site: spec.site,
+          position: spec.position ?? "Anywhere",
+          classification: spec.classification ?? null,
+          ...(losses.length ? { neutralLosses: losses } : {})
+        });
+      }
+
+      const synonyms: string[] = [];
+      const altNamePattern = /<(?:umod:)?alt_name>([^<]*)<\/(?:umod:)?alt_name>/g;
+      let altName;
+      while ((altName = altNamePattern.exec(body)) !== null) {
+        synonyms.push(decodeXmlEntities(altName[1]));
+      }
+
+      const xrefs: string[] = [];
+      const xrefPattern = /<(?:umod:)?xref>([\s\S]*?)<\/(?:umod:)?xref>/g;
+      let xref;
+      while ((xref = xrefPattern.exec(body)) !== null) {
+        const text = /<(?:umod:)?text>([^<]*)</.exec(xref[1])?.[1];
+        const source = /<(?:umod:)?source>([^<]*)</.exec(xref[1])?.[1];
+        const accession = text && source ? normalizeAccession(`${source.replace(/\s/g, "")}:${text}`) : null;
+        if (accession) {
+          xrefs.push(accession);
+        }
+      }
+
+      definitions.push({
+        source: "UNIMOD",
+        accession: `UNIMOD:${attributes.record_id}`,
+        name: attributes.title,
+        synonyms,
+        monoisotopicMass: parseMass(delta.mono_mass),
+        averageMass: parseMass(delta.avge_mass),
+        composition,
+        specificities,
+        xrefs
+      });
+    }
+    return new UnimodResolver(definitions);
+  }
+
+  /**
+   * Parse a Unimod delta composition such as `H(-1) 2H(3) C O(2)`. Glycan building blocks
+   * such as `Hex(2)` are expanded into their elements.
+   *
+   * @returns The composition, or null when it uses a building block with unknown elements
+   */
+  static parseComposition(delta: string): Composition | null {
+    let composition = new Composition();
+    for (const part of delta.trim().split(/\s+/).filter(part => part)) {
+      const match = /^(\d*[A-Za-z]+)(?:\((-?\d+)\))?$/.exec(part);
+      if (!match) {
+        return null;
+      }
+      const [, atom, countStr] = match;
+      const count = countStr ? parseInt(countStr) : 1;
+      if (atom in element_mass || atom in isotope_mass) {
+        composition = composition.add(new Composition({ [atom]: count }));
+      } else if (atom in glycan_block_composition) {
+        composition = composition.add(new Composition(glycan_block_composition[atom]), count);
+      } else {
+        return null;
+      }
+    }
+    return composition;
+  }
+}
+
+/**
+ * Parse the neutral loss compositions of a specificity, leaving out the `0` entry that
+ * Unimod uses for the modification staying intact.
+ */
+function neutralLosses(deltas: string[]): Composition[] {
+  return deltas
+    .filter(delta => delta.trim() !== "0")
+    .map(delta => UnimodResolver.parseComposition(delta))
+    .filter((composition): composition is Composition => composition !== null && !composition.isEmpty());
+}
+
+/**
+ * Parse a delta mass, giving null when the entry has none so that it is not taken for 0.
+ */
+function parseMass(value: string | null | undefined): number | null {
+  const mass = parseFloat(value ?? "");
+  return isNaN(mass) ? null : mass;
+}
+
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+  let match;
+  while ((match = attributePattern.exec(text)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}